@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { equalAspect, type Region } from "../../utils/classifiers";
+import { marchingSquares } from "../../utils/math";
+
+const PADDING = 6;
+const GRID_COLS = 48;
+const GRID_ROWS = 36;
+
+type Props = {
+    title: string;
+    // Class probabilities and predicted class at a point
+    predict: (x: number, y: number) => { cls: number; probs: number[] };
+    points: { x: number; y: number; cls: number; test?: boolean }[];
+    // Visible data range, shared by every panel in the grid
+    view: Region;
+    // Widen the view to this panel's shape so both axes share one scale, like the main plot
+    lockAspect: boolean;
+    accuracy: { train: number | null; test: number | null };
+    labels: readonly string[];
+    colors: string[];
+    hover: { x: number; y: number } | null;
+    onHover: (coords: { x: number; y: number } | null) => void;
+    // factor < 1 zooms in, keeping the data point under the cursor fixed
+    onZoom: (factor: number, at: { x: number; y: number }) => void;
+    theme: "light" | "dark";
+};
+
+const percent = (value: number | null) => (value === null ? "–" : `${(value * 100).toFixed(0)}%`);
+
+// One small-multiples panel: a classifier's regions and boundaries over the
+// shared view, with a crosshair at the shared hover position.
+export default function BoundaryPanel({
+    title,
+    predict,
+    points,
+    view: sharedView,
+    lockAspect,
+    accuracy,
+    labels,
+    colors,
+    hover,
+    onHover,
+    onZoom,
+    theme,
+}: Props) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+    // The panels resize with the grid, and the locked view depends on their shape
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const observer = new ResizeObserver(() => setSize({ width: canvas.clientWidth, height: canvas.clientHeight }));
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, []);
+
+    const view = useMemo(
+        () =>
+            lockAspect && size
+                ? equalAspect(sharedView, size.width - PADDING * 2, size.height - PADDING * 2)
+                : sharedView,
+        [sharedView, lockAspect, size]
+    );
+
+    // Predictions only change with the model or view, not with the hover position
+    const grid = useMemo(() => {
+        const cells: { cls: number; probs: number[] }[] = [];
+        for (let r = 0; r < GRID_ROWS; r++) {
+            for (let c = 0; c < GRID_COLS; c++) {
+                const gx = view.xMin + (c / (GRID_COLS - 1)) * (view.xMax - view.xMin);
+                const gy = view.yMax - (r / (GRID_ROWS - 1)) * (view.yMax - view.yMin);
+                cells.push(predict(gx, gy));
+            }
+        }
+        return cells;
+    }, [predict, view]);
+
+    const toData = useCallback(
+        (canvas: HTMLCanvasElement, clientX: number, clientY: number) => {
+            const rect = canvas.getBoundingClientRect();
+            const plotW = canvas.clientWidth - PADDING * 2;
+            const plotH = canvas.clientHeight - PADDING * 2;
+            return {
+                x: view.xMin + ((clientX - rect.left - PADDING) / plotW) * (view.xMax - view.xMin),
+                y: view.yMax - ((clientY - rect.top - PADDING) / plotH) * (view.yMax - view.yMin),
+            };
+        },
+        [view]
+    );
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        canvas.width = Math.floor(width * DPR);
+        canvas.height = Math.floor(height * DPR);
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.fillStyle = theme === "dark" ? "#0f172a" : "#ffffff";
+        ctx.fillRect(0, 0, width, height);
+
+        const plotW = width - PADDING * 2;
+        const plotH = height - PADDING * 2;
+        const toPx = (x: number, y: number) => ({
+            px: PADDING + ((x - view.xMin) / (view.xMax - view.xMin)) * plotW,
+            py: PADDING + ((view.yMax - y) / (view.yMax - view.yMin)) * plotH,
+        });
+
+        // Each grid value covers the cell centred on it
+        const cellW = plotW / (GRID_COLS - 1);
+        const cellH = plotH / (GRID_ROWS - 1);
+        grid.forEach(({ cls, probs }, i) => {
+            const px = PADDING + (i % GRID_COLS) * cellW;
+            const py = PADDING + Math.floor(i / GRID_COLS) * cellH;
+            const alpha = Math.round((0.1 + 0.3 * Math.max(...probs)) * 255);
+            ctx.fillStyle = `${colors[cls]}${alpha.toString(16).padStart(2, "0")}`;
+            ctx.fillRect(px - cellW / 2, py - cellH / 2, cellW + 0.5, cellH + 0.5);
+        });
+
+        // Region boundaries: edges of each predicted-class indicator
+        const classCount = grid[0]?.probs.length ?? 0;
+        ctx.strokeStyle = theme === "dark" ? "#e2e8f0" : "#334155";
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let k = 0; k < (classCount === 2 ? 1 : classCount); k++) {
+            const values = grid.map((g) => (g.cls === k ? 1 : 0));
+            for (const seg of marchingSquares(values, GRID_COLS, GRID_ROWS, 0.5)) {
+                ctx.moveTo(PADDING + seg.x1 * cellW, PADDING + seg.y1 * cellH);
+                ctx.lineTo(PADDING + seg.x2 * cellW, PADDING + seg.y2 * cellH);
+            }
+        }
+        ctx.stroke();
+
+        for (const p of points) {
+            const { px, py } = toPx(p.x, p.y);
+            ctx.beginPath();
+            if (p.test) {
+                ctx.moveTo(px, py - 5);
+                ctx.lineTo(px + 5, py);
+                ctx.lineTo(px, py + 5);
+                ctx.lineTo(px - 5, py);
+                ctx.closePath();
+                ctx.lineWidth = 2;
+                ctx.strokeStyle = colors[p.cls];
+                ctx.stroke();
+                continue;
+            }
+            ctx.arc(px, py, 3.5, 0, Math.PI * 2);
+            ctx.fillStyle = colors[p.cls];
+            ctx.fill();
+            ctx.lineWidth = 1;
+            ctx.strokeStyle = theme === "dark" ? "#1e293b" : "#ffffff";
+            ctx.stroke();
+        }
+
+        const hoverPx = hover && toPx(hover.x, hover.y);
+        if (hoverPx && hoverPx.px >= PADDING && hoverPx.px <= PADDING + plotW && hoverPx.py >= PADDING && hoverPx.py <= PADDING + plotH) {
+            const { px, py } = hoverPx;
+            ctx.strokeStyle = theme === "dark" ? "#f1f5f9" : "#1e293b";
+            ctx.lineWidth = 1;
+            ctx.setLineDash([3, 3]);
+            ctx.beginPath();
+            ctx.moveTo(px, PADDING);
+            ctx.lineTo(px, PADDING + plotH);
+            ctx.moveTo(PADDING, py);
+            ctx.lineTo(PADDING + plotW, py);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
+        ctx.strokeStyle = theme === "dark" ? "#475569" : "#334155";
+        ctx.lineWidth = 1;
+        ctx.strokeRect(PADDING, PADDING, plotW, plotH);
+    }, [grid, points, view, colors, hover, theme]);
+
+    // React registers wheel listeners as passive, so scrolling can't be prevented there
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            onZoom(e.deltaY < 0 ? 0.8 : 1.25, toData(canvas, e.clientX, e.clientY));
+        };
+        canvas.addEventListener("wheel", handleWheel, { passive: false });
+        return () => canvas.removeEventListener("wheel", handleWheel);
+    }, [onZoom, toData]);
+
+    const hovered = hover ? predict(hover.x, hover.y) : null;
+    const muted = theme === "dark" ? "text-gray-400" : "text-gray-500";
+
+    return (
+        <div className={`border rounded p-2 ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`}>
+            <div className="flex items-baseline justify-between gap-2 text-sm mb-1">
+                <span className="font-semibold">{title}</span>
+                <span className={`text-xs ${muted}`}>
+                    train {percent(accuracy.train)}
+                    {accuracy.test !== null && ` · test ${percent(accuracy.test)}`}
+                </span>
+            </div>
+            <canvas
+                ref={canvasRef}
+                className="w-full h-48 rounded cursor-crosshair"
+                onMouseMove={(e) => onHover(toData(e.currentTarget, e.clientX, e.clientY))}
+                onMouseLeave={() => onHover(null)}
+            />
+            <div className={`text-xs mt-1 h-4 ${muted}`}>
+                {hovered && (
+                    <>
+                        predicts <span style={{ color: colors[hovered.cls] }}>Class {labels[hovered.cls]}</span> (
+                        {(hovered.probs[hovered.cls] * 100).toFixed(0)}%)
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
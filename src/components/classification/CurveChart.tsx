@@ -0,0 +1,107 @@
+import { useEffect, useRef } from "react";
+import type { CurvePoint } from "../../utils/metrics";
+
+const PADDING = 32;
+
+type Props = {
+    points: CurvePoint[];
+    label: string;
+    xLabel: string;
+    yLabel: string;
+    color: string;
+    theme: "light" | "dark";
+    // Current operating point, e.g. the metrics at the chosen threshold
+    marker?: CurvePoint | null;
+    // Reference line: the ROC chance diagonal or the PR baseline precision
+    baseline?: { from: CurvePoint; to: CurvePoint };
+};
+
+// Unit-square line chart for ROC and precision-recall curves
+export default function CurveChart({ points, label, xLabel, yLabel, color, theme, marker, baseline }: Props) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        canvas.width = Math.floor(width * DPR);
+        canvas.height = Math.floor(height * DPR);
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+        ctx.fillRect(0, 0, width, height);
+
+        const plotW = width - PADDING * 1.5;
+        const plotH = height - PADDING * 2;
+        const toPx = (p: CurvePoint) => ({ px: PADDING + p.x * plotW, py: PADDING + (1 - p.y) * plotH });
+        const textColor = theme === "dark" ? "#f3f4f6" : "#111827";
+        const mutedColor = theme === "dark" ? "#9ca3af" : "#6b7280";
+
+        ctx.fillStyle = textColor;
+        ctx.font = "12px sans-serif";
+        ctx.textAlign = "left";
+        ctx.fillText(label, 8, 16);
+
+        ctx.strokeStyle = mutedColor;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(PADDING, PADDING, plotW, plotH);
+
+        ctx.fillStyle = mutedColor;
+        ctx.font = "10px sans-serif";
+        ctx.textAlign = "center";
+        for (const t of [0, 0.5, 1]) {
+            ctx.fillText(t.toString(), PADDING + t * plotW, PADDING + plotH + 12);
+        }
+        ctx.fillText(xLabel, PADDING + plotW / 2, PADDING + plotH + 26);
+        ctx.textAlign = "right";
+        for (const t of [0, 0.5, 1]) {
+            ctx.fillText(t.toString(), PADDING - 4, PADDING + (1 - t) * plotH + 3);
+        }
+        ctx.save();
+        ctx.translate(10, PADDING + plotH / 2);
+        ctx.rotate(-Math.PI / 2);
+        ctx.textAlign = "center";
+        ctx.fillText(yLabel, 0, 0);
+        ctx.restore();
+
+        if (baseline) {
+            const a = toPx(baseline.from);
+            const b = toPx(baseline.to);
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(a.px, a.py);
+            ctx.lineTo(b.px, b.py);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
+        if (points.length > 1) {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            points.forEach((p, i) => {
+                const { px, py } = toPx(p);
+                if (i === 0) ctx.moveTo(px, py);
+                else ctx.lineTo(px, py);
+            });
+            ctx.stroke();
+        }
+
+        if (marker) {
+            const { px, py } = toPx(marker);
+            ctx.beginPath();
+            ctx.arc(px, py, 5, 0, Math.PI * 2);
+            ctx.fillStyle = color;
+            ctx.fill();
+            ctx.strokeStyle = textColor;
+            ctx.lineWidth = 1.5;
+            ctx.stroke();
+        }
+    }, [points, label, xLabel, yLabel, color, theme, marker, baseline]);
+
+    return <canvas ref={canvasRef} className="w-full h-56 rounded" />;
+}
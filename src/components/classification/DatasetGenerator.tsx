@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { BINARY_SHAPES, type ClassificationDatasetOptions, type DatasetShape } from "../../utils/classifiers";
+import { randomSeed } from "../../utils/random";
+
+type Props = {
+    initial: ClassificationDatasetOptions;
+    classCount: number;
+    theme: "light" | "dark";
+    onGenerate: (opts: ClassificationDatasetOptions) => void;
+};
+
+const SHAPE_LABELS: Record<DatasetShape, string> = {
+    blobs: "Gaussian blobs",
+    moons: "Two moons",
+    circles: "Concentric circles",
+    xor: "XOR quadrants",
+    spirals: "Spirals",
+    linear: "Linearly separable",
+};
+
+type SliderProps = {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    digits?: number;
+    onChange: (value: number) => void;
+};
+
+function SliderRow({ label, value, min, max, step, digits = 1, onChange }: SliderProps) {
+    return (
+        <div>
+            <div className="text-sm mb-1 flex justify-between">
+                <span>{label}</span>
+                <span className="font-medium">{value.toFixed(digits)}</span>
+            </div>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-full"
+            />
+        </div>
+    );
+}
+
+export default function DatasetGenerator({ initial, classCount, theme, onGenerate }: Props) {
+    const [opts, setOpts] = useState<ClassificationDatasetOptions>(initial);
+
+    const update = <K extends keyof ClassificationDatasetOptions>(key: K, value: ClassificationDatasetOptions[K]) =>
+        setOpts((prev) => ({ ...prev, [key]: value }));
+
+    const classes = BINARY_SHAPES.includes(opts.shape) ? 2 : classCount;
+    const muted = theme === "dark" ? "text-gray-400" : "text-gray-500";
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-3">
+                <div>
+                    <label className="text-sm block mb-1">Shape:</label>
+                    <select
+                        value={opts.shape}
+                        onChange={(e) => update("shape", e.target.value as DatasetShape)}
+                        className={`w-full p-2 border rounded ${theme === "dark"
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "bg-white border-gray-300"
+                            }`}
+                    >
+                        {(Object.keys(SHAPE_LABELS) as DatasetShape[]).map((k) => (
+                            <option key={k} value={k}>{SHAPE_LABELS[k]}</option>
+                        ))}
+                    </select>
+                </div>
+                <p className={`text-xs ${muted}`}>
+                    {BINARY_SHAPES.includes(opts.shape)
+                        ? "This shape always has two classes (A and B)."
+                        : `Uses the ${classCount} active classes.`}
+                </p>
+            </div>
+
+            <div className="space-y-3">
+                <SliderRow label="Points:" value={opts.count} min={10} max={400} step={10} digits={0} onChange={(v) => update("count", v)} />
+                <SliderRow label="Noise (σ):" value={opts.noise} min={0} max={1.5} step={0.05} digits={2} onChange={(v) => update("noise", v)} />
+                <SliderRow
+                    label="Class imbalance:"
+                    value={opts.imbalance}
+                    min={0}
+                    max={0.9}
+                    step={0.05}
+                    digits={2}
+                    onChange={(v) => update("imbalance", v)}
+                />
+            </div>
+
+            <div className="space-y-3">
+                <div>
+                    <label className="text-sm block mb-1">Seed:</label>
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            value={opts.seed}
+                            onChange={(e) => {
+                                const seed = parseInt(e.target.value, 10);
+                                if (Number.isFinite(seed)) update("seed", seed);
+                            }}
+                            className={`border p-2 rounded w-full ${theme === "dark"
+                                ? "bg-gray-700 border-gray-600 text-white"
+                                : "bg-white border-gray-300"
+                                }`}
+                        />
+                        <button
+                            onClick={() => update("seed", randomSeed())}
+                            className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded transition-colors"
+                            title="Pick a random seed"
+                        >
+                            🎲
+                        </button>
+                    </div>
+                </div>
+
+                <button
+                    onClick={() => onGenerate(opts)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded w-full transition-colors"
+                >
+                    Generate {classes}-Class Data
+                </button>
+
+                <p className={`text-xs ${muted}`}>
+                    Replaces the current points. With an imbalance of r, each class gets (1 − r) times as many points as the one before.
+                </p>
+            </div>
+        </div>
+    );
+}
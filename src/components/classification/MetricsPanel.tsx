@@ -0,0 +1,184 @@
+import { useMemo } from "react";
+import { accuracy, areaUnderCurve, classScores, confusionMatrix, macroScores, thresholdCurves } from "../../utils/metrics";
+import CurveChart from "./CurveChart";
+
+type Props = {
+    actual: number[];
+    predicted: number[];
+    // Per-point class probabilities from the active classifier
+    probs: number[][];
+    classCount: number;
+    labels: readonly string[];
+    colors: string[];
+    // Binary only: predict class A when P(A) ≥ threshold
+    threshold: number;
+    onThresholdChange: (threshold: number) => void;
+    // Class treated as positive for precision/recall and the one-vs-rest curves
+    positiveClass: number;
+    onPositiveClassChange: (cls: number) => void;
+    theme: "light" | "dark";
+};
+
+export default function MetricsPanel({
+    actual,
+    predicted,
+    probs,
+    classCount,
+    labels,
+    colors,
+    threshold,
+    onThresholdChange,
+    positiveClass,
+    onPositiveClassChange,
+    theme,
+}: Props) {
+    const matrix = useMemo(() => confusionMatrix(actual, predicted, classCount), [actual, predicted, classCount]);
+    const curves = useMemo(
+        () => thresholdCurves(probs.map((p) => p[positiveClass]), actual.map((a) => a === positiveClass)),
+        [probs, actual, positiveClass]
+    );
+    const scores = classScores(matrix, positiveClass);
+    const macro = macroScores(matrix);
+
+    const positives = scores.support;
+    const negatives = actual.length - positives;
+    const falsePositives = matrix.reduce((s, row, i) => (i === positiveClass ? s : s + row[positiveClass]), 0);
+    const rocPoint = { x: negatives ? falsePositives / negatives : 0, y: scores.recall };
+    const prPoint = { x: scores.recall, y: scores.precision };
+    const baseRate = actual.length ? positives / actual.length : 0;
+
+    const muted = theme === "dark" ? "text-gray-400" : "text-gray-500";
+    const tile = `border rounded p-3 text-center ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`;
+    const positiveLabel = `Class ${labels[positiveClass]}`;
+
+    if (!actual.length) {
+        return <p className={`text-sm ${muted}`}>Add points to evaluate the classifier.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+                {classCount > 2 ? (
+                    <label className="flex items-center gap-2">
+                        Positive class:
+                        <select
+                            value={positiveClass}
+                            onChange={(e) => onPositiveClassChange(Number(e.target.value))}
+                            className={`p-1 border rounded ${theme === "dark"
+                                ? "bg-gray-700 border-gray-600 text-white"
+                                : "bg-white border-gray-300"
+                                }`}
+                        >
+                            {labels.slice(0, classCount).map((l, k) => (
+                                <option key={l} value={k}>Class {l} vs rest</option>
+                            ))}
+                        </select>
+                    </label>
+                ) : (
+                    <label className="flex items-center gap-3 flex-1 min-w-[260px]">
+                        <span className="whitespace-nowrap">Threshold: P(A) ≥ {threshold.toFixed(2)}</span>
+                        <input
+                            type="range"
+                            min={0.01}
+                            max={0.99}
+                            step={0.01}
+                            value={threshold}
+                            onChange={(e) => onThresholdChange(Number(e.target.value))}
+                            className="flex-1"
+                        />
+                        <button
+                            onClick={() => onThresholdChange(0.5)}
+                            className={`px-2 py-1 rounded text-xs ${theme === "dark" ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-100 hover:bg-gray-200"}`}
+                        >
+                            Reset
+                        </button>
+                    </label>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className={tile}>
+                    <div className={`text-xs ${muted}`}>Accuracy</div>
+                    <div className="text-lg font-semibold">{(accuracy(matrix) * 100).toFixed(1)}%</div>
+                </div>
+                {(["precision", "recall", "f1"] as const).map((key) => (
+                    <div key={key} className={tile}>
+                        <div className={`text-xs ${muted}`}>
+                            {key === "f1" ? "F1" : key[0].toUpperCase() + key.slice(1)} ({positiveLabel})
+                        </div>
+                        <div className="text-lg font-semibold">{scores[key].toFixed(3)}</div>
+                        {classCount > 2 && <div className={`text-xs ${muted}`}>macro {macro[key].toFixed(3)}</div>}
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <h4 className="text-sm font-semibold mb-2">Confusion Matrix</h4>
+                    <div className="overflow-x-auto">
+                        <table className="text-sm border-collapse">
+                            <thead>
+                                <tr>
+                                    <th className={`p-1 text-xs font-normal ${muted}`}>actual ↓ / pred →</th>
+                                    {matrix.map((_, k) => (
+                                        <th key={k} className="p-1 px-2" style={{ color: colors[k] }}>{labels[k]}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {matrix.map((row, a) => {
+                                    const rowTotal = row.reduce((s, v) => s + v, 0);
+                                    return (
+                                        <tr key={a}>
+                                            <th className="p-1 px-2" style={{ color: colors[a] }}>{labels[a]}</th>
+                                            {row.map((count, p) => (
+                                                <td
+                                                    key={p}
+                                                    className={`p-1 px-2 text-center border ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`}
+                                                    style={{
+                                                        // Shade by share of the actual class; correct cells in the class colour
+                                                        backgroundColor: rowTotal
+                                                            ? `${a === p ? colors[a] : "#ef4444"}${Math.round((count / rowTotal) * 96).toString(16).padStart(2, "0")}`
+                                                            : undefined,
+                                                    }}
+                                                >
+                                                    {count}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+                <CurveChart
+                    points={curves.roc}
+                    label={`ROC (${positiveLabel}) AUC = ${areaUnderCurve(curves.roc).toFixed(3)}`}
+                    xLabel="False positive rate"
+                    yLabel="True positive rate"
+                    color={colors[positiveClass]}
+                    theme={theme}
+                    marker={rocPoint}
+                    baseline={{ from: { x: 0, y: 0 }, to: { x: 1, y: 1 } }}
+                />
+                <CurveChart
+                    points={curves.pr}
+                    label={`Precision-Recall AUC = ${areaUnderCurve(curves.pr).toFixed(3)}`}
+                    xLabel="Recall"
+                    yLabel="Precision"
+                    color={colors[positiveClass]}
+                    theme={theme}
+                    marker={prPoint}
+                    baseline={{ from: { x: 0, y: baseRate }, to: { x: 1, y: baseRate } }}
+                />
+            </div>
+
+            <p className={`text-xs ${muted}`}>
+                {classCount > 2
+                    ? "Curves treat the chosen class as positive and every other class as negative. The dot marks the current predictions."
+                    : "The dot marks the current threshold. Raising it makes Class A predictions rarer but more precise; lowering it catches more of Class A at the cost of false alarms. The boundary on the plot moves with it."}
+            </p>
+        </div>
+    );
+}
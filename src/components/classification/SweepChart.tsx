@@ -0,0 +1,102 @@
+import { useEffect, useRef } from "react";
+import type { SweepPoint } from "../../utils/classifiers";
+
+const PADDING = 36;
+const TRAIN_COLOR = "#2563eb";
+const TEST_COLOR = "#f97316";
+
+type Props = {
+    points: SweepPoint[];
+    xLabel: string;
+    theme: "light" | "dark";
+    // Parameter value the page is currently using, highlighted on the x axis
+    current?: number;
+    format?: (value: number) => string;
+};
+
+// Train and test accuracy against a complexity parameter. Values are spaced
+// evenly, so log-spaced grids (C, γ) read as a log axis.
+export default function SweepChart({ points, xLabel, theme, current, format = (v) => v.toString() }: Props) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        canvas.width = Math.floor(width * DPR);
+        canvas.height = Math.floor(height * DPR);
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+        ctx.fillRect(0, 0, width, height);
+        if (points.length === 0) return;
+
+        const plotW = width - PADDING * 2;
+        const plotH = height - PADDING * 2;
+        const toX = (i: number) => PADDING + (points.length > 1 ? i / (points.length - 1) : 0.5) * plotW;
+        const toY = (acc: number) => PADDING + (1 - acc) * plotH;
+        const textColor = theme === "dark" ? "#f3f4f6" : "#111827";
+        const mutedColor = theme === "dark" ? "#9ca3af" : "#6b7280";
+
+        ctx.strokeStyle = mutedColor;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(PADDING, PADDING, plotW, plotH);
+
+        ctx.fillStyle = mutedColor;
+        ctx.font = "10px sans-serif";
+        ctx.textAlign = "right";
+        for (const t of [0, 0.25, 0.5, 0.75, 1]) {
+            ctx.fillText(`${t * 100}%`, PADDING - 4, toY(t) + 3);
+        }
+        ctx.textAlign = "center";
+        points.forEach((p, i) => {
+            ctx.fillStyle = p.value === current ? textColor : mutedColor;
+            ctx.fillText(format(p.value), toX(i), PADDING + plotH + 12);
+        });
+        ctx.fillStyle = mutedColor;
+        ctx.fillText(xLabel, PADDING + plotW / 2, PADDING + plotH + 28);
+
+        const currentIndex = points.findIndex((p) => p.value === current);
+        if (currentIndex >= 0) {
+            ctx.strokeStyle = mutedColor;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(toX(currentIndex), PADDING);
+            ctx.lineTo(toX(currentIndex), PADDING + plotH);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
+        const series: [string, string, (p: SweepPoint) => number | null][] = [
+            ["Train", TRAIN_COLOR, (p) => p.train],
+            ["Test", TEST_COLOR, (p) => p.test],
+        ];
+        series.forEach(([name, color, get], s) => {
+            if (get(points[0]) === null) return;
+            ctx.strokeStyle = color;
+            ctx.fillStyle = color;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            points.forEach((p, i) => {
+                const y = toY(get(p) ?? 0);
+                if (i === 0) ctx.moveTo(toX(i), y);
+                else ctx.lineTo(toX(i), y);
+            });
+            ctx.stroke();
+            points.forEach((p, i) => {
+                ctx.beginPath();
+                ctx.arc(toX(i), toY(get(p) ?? 0), 3, 0, Math.PI * 2);
+                ctx.fill();
+            });
+            ctx.font = "12px sans-serif";
+            ctx.textAlign = "left";
+            ctx.fillText(`${name} accuracy`, PADDING + 8 + s * 120, PADDING - 10);
+        });
+    }, [points, xLabel, theme, current, format]);
+
+    return <canvas ref={canvasRef} className="w-full h-56 rounded" />;
+}
@@ -0,0 +1,91 @@
+import type { TreeNode } from "../../utils/classifiers";
+
+type Props = {
+    root: TreeNode;
+    labels: readonly string[];
+    colors: string[];
+    highlightedId: number | null;
+    theme: "light" | "dark";
+    onHover: (node: TreeNode | null) => void;
+};
+
+const NODE_W = 76;
+const NODE_H = 36;
+const LEVEL_H = 64;
+
+type Placed = { node: TreeNode; x: number; y: number; parent: { x: number; y: number } | null };
+
+// Leaves take consecutive slots left to right; each split sits above the
+// midpoint of its children.
+function layout(root: TreeNode) {
+    const placed: Placed[] = [];
+    let slot = 0;
+    const place = (node: TreeNode): Placed => {
+        const entry: Placed = { node, x: 0, y: node.depth * LEVEL_H + NODE_H / 2 + 4, parent: null };
+        placed.push(entry);
+        if (node.split) {
+            const left = place(node.split.left);
+            const right = place(node.split.right);
+            entry.x = (left.x + right.x) / 2;
+            left.parent = right.parent = { x: entry.x, y: entry.y };
+        } else {
+            entry.x = slot++ * (NODE_W + 12) + NODE_W / 2 + 4;
+        }
+        return entry;
+    };
+    place(root);
+    return { placed, width: slot * (NODE_W + 12) + 8 };
+}
+
+// Renders a fitted CART tree; hovering a node reports it so the plot can
+// highlight the region it covers.
+export default function TreeDiagram({ root, labels, colors, highlightedId, theme, onHover }: Props) {
+    const { placed, width } = layout(root);
+    const height = Math.max(...placed.map((p) => p.y)) + NODE_H / 2 + 4;
+    const textColor = theme === "dark" ? "#e2e8f0" : "#1e293b";
+    const edgeColor = theme === "dark" ? "#64748b" : "#94a3b8";
+
+    return (
+        <div className="overflow-x-auto">
+            <svg width={width} height={height} className="mx-auto block">
+                {placed.map(({ node, x, y, parent }) =>
+                    parent ? (
+                        <line key={`edge-${node.id}`} x1={parent.x} y1={parent.y + NODE_H / 2} x2={x} y2={y - NODE_H / 2} stroke={edgeColor} />
+                    ) : null
+                )}
+                {placed.map(({ node, x, y }) => {
+                    const total = node.counts.reduce((a, b) => a + b, 0);
+                    const majority = node.counts.indexOf(Math.max(...node.counts));
+                    const highlighted = node.id === highlightedId;
+                    return (
+                        <g
+                            key={node.id}
+                            onMouseEnter={() => onHover(node)}
+                            onMouseLeave={() => onHover(null)}
+                            className="cursor-pointer"
+                        >
+                            <rect
+                                x={x - NODE_W / 2}
+                                y={y - NODE_H / 2}
+                                width={NODE_W}
+                                height={NODE_H}
+                                rx={6}
+                                fill={`${colors[majority]}${node.split ? "22" : "55"}`}
+                                stroke={highlighted ? textColor : colors[majority]}
+                                strokeWidth={highlighted ? 2.5 : 1}
+                            />
+                            <text x={x} y={y - 3} textAnchor="middle" fontSize={11} fill={textColor}>
+                                {node.split
+                                    ? `${node.split.feature} ≤ ${node.split.threshold.toFixed(2)}`
+                                    : `Class ${labels[majority]}`}
+                            </text>
+                            <text x={x} y={y + 11} textAnchor="middle" fontSize={10} fill={edgeColor}>
+                                n = {total}
+                            </text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+type Props = {
+    // Feature names, one per weight (bias first)
+    names: string[];
+    // One weight vector per column, e.g. a single column for binary logistic
+    // regression or one per class for softmax
+    columns: { label: string; color: string; weights: number[] }[];
+    theme: "light" | "dark";
+};
+
+// Learned weights listed per feature, with bars scaled to the largest |w| in
+// each column; exact zeros (pruned by L1) are greyed out.
+export default function WeightTable({ names, columns, theme }: Props) {
+    const scales = columns.map((c) => Math.max(1e-12, ...c.weights.slice(1).map(Math.abs)));
+    const muted = theme === "dark" ? "text-gray-500" : "text-gray-400";
+
+    return (
+        <div className="overflow-x-auto max-h-72">
+            <table className="w-full text-xs font-mono">
+                <thead>
+                    <tr className={theme === "dark" ? "text-gray-300" : "text-gray-600"}>
+                        <th className="text-left py-1 pr-2">feature</th>
+                        {columns.map((c) => (
+                            <th key={c.label} className="text-right py-1 px-1" style={{ color: c.color }}>
+                                {c.label}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {names.map((name, i) => (
+                        <tr key={i} className={`border-t ${theme === "dark" ? "border-gray-700" : "border-gray-100"}`}>
+                            <td className="py-1 pr-2 whitespace-nowrap">{name}</td>
+                            {columns.map((c, k) => {
+                                const w = c.weights[i] ?? 0;
+                                return (
+                                    <td key={c.label} className={`py-1 px-1 text-right ${w === 0 ? muted : ""}`}>
+                                        <div>{w.toFixed(3)}</div>
+                                        {i > 0 && (
+                                            <div
+                                                className="h-1 rounded ml-auto"
+                                                style={{
+                                                    width: `${(Math.abs(w) / scales[k]) * 100}%`,
+                                                    backgroundColor: w >= 0 ? c.color : "#ef4444",
+                                                }}
+                                            />
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+type Frame = { m: number; b: number; error: number };
+
+type Props = {
+    frames: Frame[];
+    frame: number;
+    isPlaying: boolean;
+    theme: "light" | "dark";
+    onPlayPause: () => void;
+    onSeek: (frame: number) => void;
+    onExport: () => void;
+    onClose: () => void;
+};
+
+// Transport controls for a recorded sequence of line fits
+export default function AnimationTimeline({ frames, frame, isPlaying, theme, onPlayPause, onSeek, onExport, onClose }: Props) {
+    const last = frames.length - 1;
+    const current = frames[frame];
+    const buttonClass = `px-3 py-1 rounded text-sm transition-colors disabled:opacity-40 ${theme === "dark"
+        ? "bg-gray-700 text-gray-200 hover:bg-gray-600"
+        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+        }`;
+
+    return (
+        <div className={`mt-3 p-3 border rounded space-y-2 ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => onSeek(0)} disabled={frame === 0} className={buttonClass} title="First frame">
+                    ⏮
+                </button>
+                <button onClick={() => onSeek(frame - 1)} disabled={frame === 0} className={buttonClass} title="Step back">
+                    ◀
+                </button>
+                <button
+                    onClick={onPlayPause}
+                    className="px-3 py-1 rounded text-sm bg-green-600 hover:bg-green-700 text-white transition-colors"
+                >
+                    {isPlaying ? "Pause" : frame === last ? "Replay" : "Play"}
+                </button>
+                <button onClick={() => onSeek(frame + 1)} disabled={frame === last} className={buttonClass} title="Step forward">
+                    ▶
+                </button>
+                <button onClick={() => onSeek(last)} disabled={frame === last} className={buttonClass} title="Last frame">
+                    ⏭
+                </button>
+                <span className={`text-sm ml-auto ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                    Frame {frame + 1} / {frames.length}
+                </span>
+            </div>
+
+            <input
+                type="range"
+                min={0}
+                max={last}
+                value={frame}
+                onChange={(e) => onSeek(Number(e.target.value))}
+                className="w-full"
+            />
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                {current && (
+                    <span className={`font-mono ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                        m = {current.m.toFixed(4)}, b = {current.b.toFixed(4)}, SSR = {current.error.toFixed(4)}
+                    </span>
+                )}
+                <div className="ml-auto flex gap-2">
+                    <button onClick={onExport} className={buttonClass}>
+                        Export JSON
+                    </button>
+                    <button onClick={onClose} className={buttonClass}>
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
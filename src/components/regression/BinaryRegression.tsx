@@ -0,0 +1,145 @@
+import type { LogisticParams, LogisticSolver } from "../../utils/regression";
+
+type Props = {
+    theme: "light" | "dark";
+    solver: LogisticSolver;
+    onSolverChange: (solver: LogisticSolver) => void;
+    learningRate: number;
+    onLearningRateChange: (rate: number) => void;
+    params: LogisticParams;
+    iteration: number;
+    status: "converged" | "max-iterations" | null;
+    isRunning: boolean;
+    onRunToggle: () => void;
+    onStep: () => void;
+    onReset: () => void;
+    // Mean log-loss of the logistic fit on the page's points
+    loss: number;
+    // Share of points on the correct side of the 0.5 threshold for each model
+    accuracy: { linear: number; logistic: number };
+};
+
+// Controls and fit statistics for the logistic model drawn on the regression
+// canvas in binary-target mode; the page owns the points and the fit.
+export default function BinaryRegression({
+    theme,
+    solver,
+    onSolverChange,
+    learningRate,
+    onLearningRateChange,
+    params,
+    iteration,
+    status,
+    isRunning,
+    onRunToggle,
+    onStep,
+    onReset,
+    loss,
+    accuracy,
+}: Props) {
+    const boundary = Math.abs(params.w1) > 1e-9 ? -params.w0 / params.w1 : null;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+                <div>
+                    <label className="text-sm block mb-1">Logistic Solver:</label>
+                    <select
+                        value={solver}
+                        onChange={(e) => onSolverChange(e.target.value as LogisticSolver)}
+                        className={`p-2 border rounded ${theme === "dark"
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "bg-white border-gray-300"
+                            }`}
+                    >
+                        <option value="newton">Newton / IRLS</option>
+                        <option value="gradient-descent">Gradient Descent</option>
+                    </select>
+                </div>
+
+                {solver === "gradient-descent" && (
+                    <div className="w-48">
+                        <div className="text-sm mb-1 flex justify-between">
+                            <span>Learning Rate:</span>
+                            <span className="font-medium">{learningRate.toPrecision(2)}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={-3}
+                            max={0.5}
+                            step={0.05}
+                            value={Math.log10(learningRate)}
+                            onChange={(e) => onLearningRateChange(Number((10 ** Number(e.target.value)).toPrecision(2)))}
+                            className="w-full"
+                        />
+                    </div>
+                )}
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={onRunToggle}
+                        className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded transition-colors"
+                    >
+                        {isRunning ? "Pause" : "Fit"}
+                    </button>
+                    <button
+                        onClick={onStep}
+                        disabled={isRunning || status !== null}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded disabled:bg-gray-500 transition-colors"
+                    >
+                        Step
+                    </button>
+                    <button
+                        onClick={onReset}
+                        className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded transition-colors"
+                    >
+                        Reset
+                    </button>
+                </div>
+            </div>
+
+            <div className={`text-sm grid md:grid-cols-2 gap-4 ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <span>Logistic: p = σ(w₀ + w₁x)</span>
+                        <span className="font-medium">
+                            w₀ = {params.w0.toFixed(3)}, w₁ = {params.w1.toFixed(3)}
+                        </span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span>Log-loss (mean):</span>
+                        <span className="font-medium">{loss.toFixed(4)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span>Accuracy at 0.5 (linear / logistic):</span>
+                        <span className="font-medium">
+                            {(accuracy.linear * 100).toFixed(0)}% / {(accuracy.logistic * 100).toFixed(0)}%
+                        </span>
+                    </div>
+                </div>
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <span>Iterations:</span>
+                        <span className="font-medium">{iteration}</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span>Decision boundary (p = 0.5):</span>
+                        <span className="font-medium">{boundary === null ? "—" : `x = ${boundary.toFixed(3)}`}</span>
+                    </div>
+                    {status === "converged" && (
+                        <div className="text-green-500">Converged: the parameters stopped changing.</div>
+                    )}
+                    {status === "max-iterations" && (
+                        <div className="text-yellow-500">Stopped at the iteration limit.</div>
+                    )}
+                    {Math.abs(params.w1) > 25 && (
+                        <div className="text-yellow-500">
+                            The classes are perfectly separable, so the weights grow without bound and the sigmoid
+                            approaches a step.
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
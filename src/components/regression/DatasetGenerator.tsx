@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { randomSeed } from "../../utils/random";
+import type { DatasetOptions, NoiseKind, TruthShape } from "../../utils/regression";
+
+type Props = {
+    initial: DatasetOptions;
+    showTruth: boolean;
+    theme: "light" | "dark";
+    onGenerate: (opts: DatasetOptions) => void;
+    onShowTruthChange: (show: boolean) => void;
+};
+
+const SHAPE_LABELS: Record<TruthShape, string> = {
+    linear: "Linear",
+    quadratic: "Quadratic",
+    sine: "Sine wave",
+    exponential: "Exponential",
+};
+
+const NOISE_LABELS: Record<NoiseKind, string> = {
+    gaussian: "Gaussian",
+    uniform: "Uniform",
+    "heavy-tailed": "Heavy-tailed (Student-t, 3 df)",
+};
+
+type SliderProps = {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    digits?: number;
+    onChange: (value: number) => void;
+};
+
+function SliderRow({ label, value, min, max, step, digits = 1, onChange }: SliderProps) {
+    return (
+        <div>
+            <div className="text-sm mb-1 flex justify-between">
+                <span>{label}</span>
+                <span className="font-medium">{value.toFixed(digits)}</span>
+            </div>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-full"
+            />
+        </div>
+    );
+}
+
+export default function DatasetGenerator({ initial, showTruth, theme, onGenerate, onShowTruthChange }: Props) {
+    const [opts, setOpts] = useState<DatasetOptions>(initial);
+
+    const update = <K extends keyof DatasetOptions>(key: K, value: DatasetOptions[K]) =>
+        setOpts((prev) => ({ ...prev, [key]: value }));
+
+    const selectClass = `w-full p-2 border rounded ${theme === "dark"
+        ? "bg-gray-700 border-gray-600 text-white"
+        : "bg-white border-gray-300"
+        }`;
+
+    return (
+        <div className="space-y-3">
+            <SliderRow label="Points:" value={opts.count} min={5} max={200} step={1} digits={0} onChange={(v) => update("count", v)} />
+            <SliderRow label="True Slope:" value={opts.slope} min={-3} max={3} step={0.1} onChange={(v) => update("slope", v)} />
+            <SliderRow label="True Intercept:" value={opts.intercept} min={-5} max={10} step={0.5} onChange={(v) => update("intercept", v)} />
+
+            <div>
+                <label className="text-sm block mb-1">Ground Truth:</label>
+                <select value={opts.shape} onChange={(e) => update("shape", e.target.value as TruthShape)} className={selectClass}>
+                    {(Object.keys(SHAPE_LABELS) as TruthShape[]).map((k) => (
+                        <option key={k} value={k}>{SHAPE_LABELS[k]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {opts.shape !== "linear" && (
+                <SliderRow label="Curvature:" value={opts.curvature} min={-5} max={5} step={0.1} onChange={(v) => update("curvature", v)} />
+            )}
+
+            <div>
+                <label className="text-sm block mb-1">Noise Distribution:</label>
+                <select value={opts.noise} onChange={(e) => update("noise", e.target.value as NoiseKind)} className={selectClass}>
+                    {(Object.keys(NOISE_LABELS) as NoiseKind[]).map((k) => (
+                        <option key={k} value={k}>{NOISE_LABELS[k]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <SliderRow label="Noise Level (σ):" value={opts.noiseScale} min={0} max={5} step={0.1} onChange={(v) => update("noiseScale", v)} />
+            <SliderRow
+                label="Heteroscedasticity:"
+                value={opts.heteroscedasticity}
+                min={0}
+                max={1}
+                step={0.05}
+                digits={2}
+                onChange={(v) => update("heteroscedasticity", v)}
+            />
+
+            <div>
+                <label className="text-sm block mb-1">Seed:</label>
+                <div className="flex gap-2">
+                    <input
+                        type="number"
+                        value={opts.seed}
+                        onChange={(e) => {
+                            const seed = parseInt(e.target.value, 10);
+                            if (Number.isFinite(seed)) update("seed", seed);
+                        }}
+                        className={`border p-2 rounded w-full ${theme === "dark"
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "bg-white border-gray-300"
+                            }`}
+                    />
+                    <button
+                        onClick={() => update("seed", randomSeed())}
+                        className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded transition-colors"
+                        title="Pick a random seed"
+                    >
+                        🎲
+                    </button>
+                </div>
+            </div>
+
+            <button
+                onClick={() => onGenerate(opts)}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded w-full transition-colors"
+            >
+                Generate Data
+            </button>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={showTruth}
+                    onChange={(e) => onShowTruthChange(e.target.checked)}
+                    className="rounded"
+                />
+                <span className="text-sm">Show True Curve</span>
+            </label>
+
+            <p className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                The same settings and seed always produce the same points, so everyone who enters them sees identical data.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from "react";
+import { normalQuantile } from "../../utils/math";
+import type { Diagnostics } from "../../utils/regression";
+
+const PADDING = 40;
+
+type Tab = "fitted" | "qq" | "histogram" | "influence";
+
+const TABS: { key: Tab; label: string }[] = [
+    { key: "fitted", label: "Residuals vs Fitted" },
+    { key: "qq", label: "Normal Q-Q" },
+    { key: "histogram", label: "Histogram" },
+    { key: "influence", label: "Leverage & Cook's Distance" },
+];
+
+type Props = {
+    diagnostics: Diagnostics | null;
+    theme: "light" | "dark";
+};
+
+function extent(values: number[], pad = 0.1) {
+    let lo = Math.min(...values);
+    let hi = Math.max(...values);
+    if (hi - lo < 1e-9) {
+        lo -= 1;
+        hi += 1;
+    }
+    const p = (hi - lo) * pad;
+    return [lo - p, hi + p];
+}
+
+export default function DiagnosticsPanel({ diagnostics, theme }: Props) {
+    const [tab, setTab] = useState<Tab>("fitted");
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !diagnostics) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        canvas.width = Math.floor(width * DPR);
+        canvas.height = Math.floor(height * DPR);
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+        ctx.fillRect(0, 0, width, height);
+
+        const axisColor = theme === "dark" ? "#d1d5db" : "#222";
+        const textColor = theme === "dark" ? "#9ca3af" : "#6b7280";
+        const pointColor = theme === "dark" ? "#3b82f6" : "#2563eb";
+        const flagColor = "#f59e0b";
+        const { influential } = diagnostics;
+
+        const frame = (xr: number[], yr: number[], xLabel: string, yLabel: string) => {
+            const toPx = (x: number, y: number) => ({
+                px: PADDING + ((x - xr[0]) / (xr[1] - xr[0])) * (width - 2 * PADDING),
+                py: height - PADDING - ((y - yr[0]) / (yr[1] - yr[0])) * (height - 2 * PADDING),
+            });
+            ctx.strokeStyle = axisColor;
+            ctx.lineWidth = 1.25;
+            ctx.strokeRect(PADDING, PADDING / 2, width - 2 * PADDING, height - 1.5 * PADDING);
+
+            ctx.fillStyle = textColor;
+            ctx.font = "11px sans-serif";
+            ctx.textAlign = "center";
+            ctx.textBaseline = "middle";
+            for (let i = 0; i <= 4; i++) {
+                const x = xr[0] + (i / 4) * (xr[1] - xr[0]);
+                const y = yr[0] + (i / 4) * (yr[1] - yr[0]);
+                ctx.fillText(x.toFixed(2), toPx(x, yr[0]).px, height - PADDING + 12);
+                ctx.textAlign = "right";
+                ctx.fillText(y.toFixed(2), PADDING - 4, toPx(xr[0], y).py);
+                ctx.textAlign = "center";
+            }
+            ctx.fillText(xLabel, width / 2, height - 8);
+            ctx.save();
+            ctx.translate(10, height / 2);
+            ctx.rotate(-Math.PI / 2);
+            ctx.fillText(yLabel, 0, 0);
+            ctx.restore();
+            return toPx;
+        };
+
+        const refLine = (a: { px: number; py: number }, b: { px: number; py: number }) => {
+            ctx.strokeStyle = theme === "dark" ? "#ef4444" : "red";
+            ctx.setLineDash([6, 4]);
+            ctx.lineWidth = 1.25;
+            ctx.beginPath();
+            ctx.moveTo(a.px, a.py);
+            ctx.lineTo(b.px, b.py);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        };
+
+        const dot = (px: number, py: number, flagged: boolean) => {
+            ctx.beginPath();
+            ctx.fillStyle = flagged ? flagColor : pointColor;
+            ctx.arc(px, py, 4.5, 0, Math.PI * 2);
+            ctx.fill();
+        };
+
+        if (tab === "fitted") {
+            const { fitted, residuals } = diagnostics;
+            const xr = extent(fitted);
+            const yAbs = Math.max(...residuals.map(Math.abs), 1e-6) * 1.2;
+            const toPx = frame(xr, [-yAbs, yAbs], "fitted value", "residual");
+            refLine(toPx(xr[0], 0), toPx(xr[1], 0));
+            fitted.forEach((f, i) => {
+                const { px, py } = toPx(f, residuals[i]);
+                dot(px, py, influential[i]);
+            });
+        } else if (tab === "qq") {
+            const n = diagnostics.standardized.length;
+            const order = diagnostics.standardized.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+            const theo = order.map((_, k) => normalQuantile((k + 1 - 0.375) / (n + 0.25)));
+            const r = extent([...theo, ...order.map((o) => o.v)]);
+            const toPx = frame(r, r, "theoretical quantile", "standardized residual");
+            refLine(toPx(r[0], r[0]), toPx(r[1], r[1]));
+            order.forEach((o, k) => {
+                const { px, py } = toPx(theo[k], o.v);
+                dot(px, py, influential[o.i]);
+            });
+        } else if (tab === "histogram") {
+            const { residuals } = diagnostics;
+            const bins = Math.max(3, Math.ceil(Math.log2(residuals.length)) + 1);
+            const [lo, hi] = extent(residuals, 0.05);
+            const counts = new Array(bins).fill(0);
+            residuals.forEach((r) => {
+                counts[Math.min(bins - 1, Math.floor(((r - lo) / (hi - lo)) * bins))]++;
+            });
+            const toPx = frame([lo, hi], [0, Math.max(...counts) + 1], "residual", "count");
+            counts.forEach((c, k) => {
+                const a = toPx(lo + (k / bins) * (hi - lo), c);
+                const b = toPx(lo + ((k + 1) / bins) * (hi - lo), 0);
+                ctx.fillStyle = theme === "dark" ? "rgba(59,130,246,0.6)" : "rgba(37,99,235,0.5)";
+                ctx.fillRect(a.px + 1, a.py, b.px - a.px - 2, b.py - a.py);
+            });
+        } else {
+            const { leverage, cooks, cooksThreshold, leverageThreshold } = diagnostics;
+            const xr: [number, number] = [0, Math.max(1, leverageThreshold * 1.2, ...leverage.map((h) => h * 1.1))];
+            const yr: [number, number] = [0, Math.max(cooksThreshold * 1.5, ...cooks.map((d) => d * 1.15))];
+            const toPx = frame(xr, yr, "leverage (hᵢᵢ)", "Cook's distance");
+            refLine(toPx(xr[0], cooksThreshold), toPx(xr[1], cooksThreshold));
+            refLine(toPx(leverageThreshold, yr[0]), toPx(leverageThreshold, yr[1]));
+            leverage.forEach((h, i) => {
+                const { px, py } = toPx(h, cooks[i]);
+                dot(px, py, influential[i]);
+                ctx.fillStyle = textColor;
+                ctx.textAlign = "left";
+                ctx.fillText(`${i}`, px + 6, py - 6);
+            });
+        }
+    }, [diagnostics, tab, theme]);
+
+    return (
+        <div>
+            <div className="flex flex-wrap gap-2 mb-3">
+                {TABS.map((t) => (
+                    <button
+                        key={t.key}
+                        onClick={() => setTab(t.key)}
+                        className={`px-3 py-1 rounded text-sm transition-colors ${tab === t.key
+                            ? "bg-blue-600 text-white"
+                            : theme === "dark" ? "bg-gray-700 text-gray-200 hover:bg-gray-600" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                    >
+                        {t.label}
+                    </button>
+                ))}
+            </div>
+
+            {diagnostics ? (
+                <>
+                    <canvas
+                        ref={canvasRef}
+                        style={{ width: "100%", height: 280 }}
+                        className={`w-full rounded border ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}
+                    />
+                    <p className={`text-xs mt-2 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                        Orange points are influential (Cook's distance above {diagnostics.cooksThreshold.toFixed(2)} or
+                        leverage above {diagnostics.leverageThreshold.toFixed(2)}) and are ringed on the main plot.
+                    </p>
+                    {tab === "influence" && (
+                        <div className={`max-h-40 overflow-auto border rounded mt-2 text-xs ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+                            <table className="w-full">
+                                <thead className={`sticky top-0 ${theme === "dark" ? "bg-gray-600" : "bg-gray-50"}`}>
+                                    <tr>
+                                        <th className="text-left px-2 py-1">Point</th>
+                                        <th className="text-right px-2 py-1">Residual</th>
+                                        <th className="text-right px-2 py-1">Leverage</th>
+                                        <th className="text-right px-2 py-1">Cook's D</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="font-mono">
+                                    {diagnostics.residuals.map((r, i) => (
+                                        <tr key={i} className={diagnostics.influential[i] ? "text-amber-500" : ""}>
+                                            <td className="px-2 py-1">{i}</td>
+                                            <td className="px-2 py-1 text-right">{r.toFixed(4)}</td>
+                                            <td className="px-2 py-1 text-right">{diagnostics.leverage[i].toFixed(4)}</td>
+                                            <td className="px-2 py-1 text-right">{diagnostics.cooks[i].toFixed(4)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            ) : (
+                <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                    Diagnostics need more points than model coefficients.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useRef } from "react";
+
+const PADDING = 28;
+
+type Props = {
+    values: number[];
+    label: string;
+    theme: "light" | "dark";
+    // Vertical reference lines, e.g. the full-data estimate and interval bounds
+    markers?: { value: number; color: string; dashed?: boolean }[];
+    bins?: number;
+};
+
+export default function Histogram({ values, label, theme, markers = [], bins = 20 }: Props) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        canvas.width = Math.floor(width * DPR);
+        canvas.height = Math.floor(height * DPR);
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+        ctx.fillRect(0, 0, width, height);
+
+        ctx.fillStyle = theme === "dark" ? "#f3f4f6" : "#111827";
+        ctx.font = "12px sans-serif";
+        ctx.textAlign = "left";
+        ctx.fillText(label, 8, 14);
+        if (values.length === 0) return;
+
+        const all = [...values, ...markers.map((m) => m.value)].filter(Number.isFinite);
+        let lo = Math.min(...all);
+        let hi = Math.max(...all);
+        if (hi - lo < 1e-9) {
+            lo -= 0.5;
+            hi += 0.5;
+        }
+        const counts = new Array(bins).fill(0);
+        values.forEach((v) => {
+            counts[Math.min(bins - 1, Math.max(0, Math.floor(((v - lo) / (hi - lo)) * bins)))]++;
+        });
+        const maxCount = Math.max(...counts);
+        const plotW = width - 2 * PADDING;
+        const plotH = height - 2 * PADDING;
+        const toX = (v: number) => PADDING + ((v - lo) / (hi - lo)) * plotW;
+
+        ctx.fillStyle = theme === "dark" ? "rgba(59,130,246,0.6)" : "rgba(37,99,235,0.5)";
+        counts.forEach((c, i) => {
+            const h = (c / maxCount) * plotH;
+            ctx.fillRect(PADDING + (i / bins) * plotW + 1, height - PADDING - h, plotW / bins - 2, h);
+        });
+
+        for (const m of markers) {
+            ctx.strokeStyle = m.color;
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash(m.dashed ? [5, 4] : []);
+            ctx.beginPath();
+            ctx.moveTo(toX(m.value), PADDING);
+            ctx.lineTo(toX(m.value), height - PADDING);
+            ctx.stroke();
+        }
+        ctx.setLineDash([]);
+
+        ctx.strokeStyle = theme === "dark" ? "#d1d5db" : "#222";
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(PADDING, height - PADDING);
+        ctx.lineTo(width - PADDING, height - PADDING);
+        ctx.stroke();
+
+        ctx.fillStyle = theme === "dark" ? "#9ca3af" : "#6b7280";
+        ctx.font = "11px sans-serif";
+        ctx.textAlign = "center";
+        for (let i = 0; i <= 4; i++) {
+            const v = lo + (i / 4) * (hi - lo);
+            ctx.fillText(v.toFixed(2), toX(v), height - PADDING + 14);
+        }
+    }, [values, label, theme, markers, bins]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            style={{ width: "100%", height: 170 }}
+            className={`w-full rounded border ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}
+        />
+    );
+}
@@ -0,0 +1,69 @@
+import type { LinearInference } from "../../utils/regression";
+
+type Props = {
+    inference: LinearInference | null;
+    theme: "light" | "dark";
+};
+
+const fmt = (v: number, digits = 4) => (Number.isFinite(v) ? v.toFixed(digits) : "∞");
+const fmtP = (p: number) => (p < 1e-4 ? "< 0.0001" : p.toFixed(4));
+
+export default function InferencePanel({ inference, theme }: Props) {
+    const muted = theme === "dark" ? "text-gray-400" : "text-gray-500";
+    const cell = `px-2 py-1 border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`;
+
+    if (!inference) {
+        return (
+            <p className={`text-sm ${muted}`}>
+                Add at least three points with different x values to estimate standard errors.
+            </p>
+        );
+    }
+
+    const rows = [
+        { name: "Slope (m)", est: inference.m, se: inference.seM, t: inference.tM, p: inference.pM, ci: inference.ciM },
+        { name: "Intercept (b)", est: inference.b, se: inference.seB, t: inference.tB, p: inference.pB, ci: inference.ciB },
+    ];
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className={`overflow-x-auto border rounded ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+                <table className="w-full text-xs">
+                    <thead className={theme === "dark" ? "bg-gray-600 text-gray-200" : "bg-gray-50 text-gray-600"}>
+                        <tr>
+                            <th className="text-left px-2 py-1">Term</th>
+                            <th className="text-right px-2 py-1">Estimate</th>
+                            <th className="text-right px-2 py-1">Std. Error</th>
+                            <th className="text-right px-2 py-1">t</th>
+                            <th className="text-right px-2 py-1">p-value</th>
+                            <th className="text-right px-2 py-1">95% CI</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                        {rows.map((r) => (
+                            <tr key={r.name}>
+                                <td className={`${cell} font-sans`}>{r.name}</td>
+                                <td className={`${cell} text-right`}>{fmt(r.est)}</td>
+                                <td className={`${cell} text-right`}>{fmt(r.se)}</td>
+                                <td className={`${cell} text-right`}>{fmt(r.t, 3)}</td>
+                                <td className={`${cell} text-right`}>{fmtP(r.p)}</td>
+                                <td className={`${cell} text-right`}>[{fmt(r.ci[0], 3)}, {fmt(r.ci[1], 3)}]</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                <span>R²:</span>
+                <span className="font-medium text-right">{fmt(inference.r2)}</span>
+                <span>Adjusted R²:</span>
+                <span className="font-medium text-right">{fmt(inference.adjR2)}</span>
+                <span>F-statistic (1, {inference.df}):</span>
+                <span className="font-medium text-right">{fmt(inference.f, 3)}, p = {fmtP(inference.pF)}</span>
+                <span>Residual std. error:</span>
+                <span className="font-medium text-right">{fmt(inference.rse)} on {inference.df} df</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useRef } from "react";
+import { heatColor, marchingSquares } from "../../utils/math";
+import { sumSquaredError, type Point } from "../../utils/regression";
+
+const PADDING = 40;
+const GRID = 60;
+const CONTOUR_LEVELS = 12;
+
+type Props = {
+    points: Point[];
+    theme: "light" | "dark";
+    current: { m: number; b: number };
+    manual: { m: number; b: number } | null;
+    optimum: { m: number; b: number };
+    path: { m: number; b: number }[];
+};
+
+// Sum of squared residuals over (m, b) with the optimizer's trajectory drawn on top
+export default function LossSurface({ points, theme, current, manual, optimum, path }: Props) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    const domain = useMemo(() => {
+        // Keep the bowl centred on the optimum, widened to show every marker the
+        // user can move. Diverging paths are clipped rather than zoomed out to.
+        const limit = 50;
+        const ms = [optimum.m, current.m, ...path.map((p) => p.m)];
+        const bs = [optimum.b, current.b, ...path.map((p) => p.b)];
+        if (manual) {
+            ms.push(manual.m);
+            bs.push(manual.b);
+        }
+        const near = (v: number, c: number) => Number.isFinite(v) && Math.abs(v - c) < limit;
+        const mVals = ms.filter((v) => near(v, optimum.m));
+        const bVals = bs.filter((v) => near(v, optimum.b));
+
+        const mHalf = Math.max(2, ...mVals.map((v) => Math.abs(v - optimum.m) * 1.15));
+        const bHalf = Math.max(5, ...bVals.map((v) => Math.abs(v - optimum.b) * 1.15));
+        return {
+            mMin: optimum.m - mHalf,
+            mMax: optimum.m + mHalf,
+            bMin: optimum.b - bHalf,
+            bMax: optimum.b + bHalf,
+        };
+    }, [optimum.m, optimum.b, current.m, current.b, manual, path]);
+
+    // Log-scaled loss over the grid, rows running from bMax (top) to bMin (bottom)
+    const surface = useMemo(() => {
+        const values: number[] = [];
+        for (let r = 0; r < GRID; r++) {
+            const b = domain.bMax - (r / (GRID - 1)) * (domain.bMax - domain.bMin);
+            for (let c = 0; c < GRID; c++) {
+                const m = domain.mMin + (c / (GRID - 1)) * (domain.mMax - domain.mMin);
+                values.push(Math.log10(1 + sumSquaredError(points, m, b)));
+            }
+        }
+        const lo = Math.min(...values);
+        const hi = Math.max(...values);
+        return { values, lo, hi };
+    }, [points, domain]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        if (canvas.width !== Math.floor(width * DPR) || canvas.height !== Math.floor(height * DPR)) {
+            canvas.width = Math.floor(width * DPR);
+            canvas.height = Math.floor(height * DPR);
+        }
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+        ctx.fillRect(0, 0, width, height);
+
+        const plotW = width - 2 * PADDING;
+        const plotH = height - 2 * PADDING;
+        const { mMin, mMax, bMin, bMax } = domain;
+        const toPx = (m: number, b: number) => ({
+            px: PADDING + ((m - mMin) / (mMax - mMin)) * plotW,
+            py: PADDING + ((bMax - b) / (bMax - bMin)) * plotH,
+        });
+        const gridToPx = (c: number, r: number) => ({
+            px: PADDING + (c / (GRID - 1)) * plotW,
+            py: PADDING + (r / (GRID - 1)) * plotH,
+        });
+
+        const { values, lo, hi } = surface;
+        const span = hi - lo || 1;
+        const cellW = plotW / (GRID - 1);
+        const cellH = plotH / (GRID - 1);
+        for (let r = 0; r < GRID; r++) {
+            for (let c = 0; c < GRID; c++) {
+                const { px, py } = gridToPx(c, r);
+                ctx.fillStyle = heatColor((values[r * GRID + c] - lo) / span, 0.85);
+                ctx.fillRect(px - cellW / 2, py - cellH / 2, cellW + 1, cellH + 1);
+            }
+        }
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(PADDING, PADDING, plotW, plotH);
+        ctx.clip();
+
+        ctx.strokeStyle = "rgba(255,255,255,0.55)";
+        ctx.lineWidth = 1;
+        for (let i = 1; i <= CONTOUR_LEVELS; i++) {
+            const level = lo + (i / (CONTOUR_LEVELS + 1)) * span;
+            ctx.beginPath();
+            for (const s of marchingSquares(values, GRID, GRID, level)) {
+                const a = gridToPx(s.x1, s.y1);
+                const b = gridToPx(s.x2, s.y2);
+                ctx.moveTo(a.px, a.py);
+                ctx.lineTo(b.px, b.py);
+            }
+            ctx.stroke();
+        }
+
+        if (path.length > 1) {
+            ctx.strokeStyle = "#10b981";
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            path.forEach((p, i) => {
+                const { px, py } = toPx(p.m, p.b);
+                if (i === 0) ctx.moveTo(px, py);
+                else ctx.lineTo(px, py);
+            });
+            ctx.stroke();
+
+            ctx.fillStyle = "#10b981";
+            for (const p of path) {
+                const { px, py } = toPx(p.m, p.b);
+                ctx.beginPath();
+                ctx.arc(px, py, 2, 0, Math.PI * 2);
+                ctx.fill();
+            }
+        }
+
+        if (manual) {
+            const { px, py } = toPx(manual.m, manual.b);
+            ctx.strokeStyle = "#a855f7";
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(px, py, 7, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+
+        const opt = toPx(optimum.m, optimum.b);
+        ctx.strokeStyle = theme === "dark" ? "#ef4444" : "red";
+        ctx.lineWidth = 2.5;
+        ctx.beginPath();
+        ctx.moveTo(opt.px - 6, opt.py - 6);
+        ctx.lineTo(opt.px + 6, opt.py + 6);
+        ctx.moveTo(opt.px + 6, opt.py - 6);
+        ctx.lineTo(opt.px - 6, opt.py + 6);
+        ctx.stroke();
+
+        const cur = toPx(current.m, current.b);
+        ctx.fillStyle = "#f59e0b";
+        ctx.strokeStyle = theme === "dark" ? "#111827" : "#fff";
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(cur.px, cur.py, 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.restore();
+
+        ctx.strokeStyle = theme === "dark" ? "#d1d5db" : "#222";
+        ctx.lineWidth = 1.25;
+        ctx.strokeRect(PADDING, PADDING, plotW, plotH);
+
+        ctx.fillStyle = theme === "dark" ? "#9ca3af" : "#6b7280";
+        ctx.font = "11px sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        for (let i = 0; i <= 4; i++) {
+            const m = mMin + (i / 4) * (mMax - mMin);
+            const b = bMin + (i / 4) * (bMax - bMin);
+            ctx.fillText(m.toFixed(1), toPx(m, bMin).px, height - PADDING + 14);
+            ctx.fillText(b.toFixed(1), PADDING - 18, toPx(mMin, b).py);
+        }
+        ctx.fillText("slope m", PADDING + plotW / 2, height - 10);
+        ctx.save();
+        ctx.translate(10, PADDING + plotH / 2);
+        ctx.rotate(-Math.PI / 2);
+        ctx.fillText("intercept b", 0, 0);
+        ctx.restore();
+
+        ctx.textAlign = "left";
+        ctx.textBaseline = "alphabetic";
+        ctx.fillStyle = theme === "dark" ? "#f3f4f6" : "#111827";
+        ctx.font = "12px sans-serif";
+        ctx.fillText(`SSR at current: ${sumSquaredError(points, current.m, current.b).toFixed(3)}`, PADDING, 16);
+        ctx.fillText(`Minimum: m = ${optimum.m.toFixed(3)}, b = ${optimum.b.toFixed(3)}`, PADDING, 30);
+    }, [points, theme, current.m, current.b, manual, optimum.m, optimum.b, path, domain, surface]);
+
+    return (
+        <div>
+            <canvas
+                ref={canvasRef}
+                style={{ width: "100%", height: 420 }}
+                className={`w-full rounded border ${theme === "dark" ? "bg-gray-700 border-gray-600" : "bg-white border-gray-300"}`}
+            />
+            <div className={`flex flex-wrap gap-3 mt-2 text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                <span><span className="text-red-500">✕</span> least-squares minimum</span>
+                <span><span className="text-amber-500">●</span> current (m, b)</span>
+                <span><span className="text-purple-500">○</span> manual sliders</span>
+                <span><span className="text-emerald-500">—</span> gradient steps</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,259 @@
+import { lazy, Suspense, useMemo, useState } from "react";
+import { fitMultiple, type MultiPoint } from "../../utils/regression";
+
+// Plotly is large, so it is only fetched once this view is rendered
+const Plot = lazy(() => import("react-plotly.js"));
+
+type Props = {
+    theme: "light" | "dark";
+};
+
+const SURFACE_STEPS = 12;
+
+function randomDataset(featureCount: number, count = 20): MultiPoint[] {
+    const weights = Array.from({ length: featureCount }, () => Math.round((Math.random() * 4 - 2) * 10) / 10);
+    const intercept = Math.round((2 + Math.random() * 4) * 10) / 10;
+    return Array.from({ length: count }, () => {
+        const features = Array.from({ length: featureCount }, () => Math.round(Math.random() * 100) / 10);
+        const noise = (Math.random() - 0.5) * 3;
+        const y = features.reduce((s, v, i) => s + v * weights[i], intercept) + noise;
+        return { features, y: Math.round(y * 100) / 100 };
+    });
+}
+
+export default function MultipleRegression({ theme }: Props) {
+    const [featureCount, setFeatureCount] = useState(2);
+    const [rows, setRows] = useState<MultiPoint[]>(() => randomDataset(2));
+    // Bumped whenever rows are replaced or shifted so the uncontrolled inputs remount
+    const [version, setVersion] = useState(0);
+
+    const fit = useMemo(() => fitMultiple(rows), [rows]);
+
+    const inputClass = `w-full p-1 border rounded text-xs ${theme === "dark"
+        ? "bg-gray-700 border-gray-600 text-white"
+        : "bg-white border-gray-300"
+        }`;
+
+    const updateCell = (row: number, col: number, value: string) => {
+        const v = parseFloat(value);
+        if (!Number.isFinite(v)) return;
+        setRows((prev) => prev.map((r, i) => {
+            if (i !== row) return r;
+            return col < featureCount
+                ? { ...r, features: r.features.map((f, j) => (j === col ? v : f)) }
+                : { ...r, y: v };
+        }));
+    };
+
+    const replaceRows = (next: MultiPoint[]) => {
+        setRows(next);
+        setVersion((v) => v + 1);
+    };
+
+    const changeFeatureCount = (k: number) => {
+        setFeatureCount(k);
+        replaceRows(randomDataset(k));
+    };
+
+    const plot = useMemo(() => {
+        if (featureCount !== 2 || rows.length === 0) return null;
+        const x1 = rows.map((r) => r.features[0]);
+        const x2 = rows.map((r) => r.features[1]);
+        const grid = (vals: number[]) => {
+            const lo = Math.min(...vals);
+            const hi = Math.max(...vals);
+            return Array.from({ length: SURFACE_STEPS }, (_, i) => lo + (i / (SURFACE_STEPS - 1)) * (hi - lo));
+        };
+        const g1 = grid(x1);
+        const g2 = grid(x2);
+        const z = g2.map((b) => g1.map((a) => fit.predict([a, b])));
+        const residualX: (number | null)[] = [];
+        const residualY: (number | null)[] = [];
+        const residualZ: (number | null)[] = [];
+        rows.forEach((r) => {
+            residualX.push(r.features[0], r.features[0], null);
+            residualY.push(r.features[1], r.features[1], null);
+            residualZ.push(r.y, fit.predict(r.features), null);
+        });
+        return { x1, x2, y: rows.map((r) => r.y), g1, g2, z, residualX, residualY, residualZ };
+    }, [featureCount, rows, fit]);
+
+    const fg = theme === "dark" ? "#e5e7eb" : "#111827";
+
+    return (
+        <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+                <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                        <label className="text-sm block mb-1">Features:</label>
+                        <select
+                            value={featureCount}
+                            onChange={(e) => changeFeatureCount(Number(e.target.value))}
+                            className={`p-2 border rounded ${theme === "dark"
+                                ? "bg-gray-700 border-gray-600 text-white"
+                                : "bg-white border-gray-300"
+                                }`}
+                        >
+                            {[2, 3, 4, 5].map((k) => (
+                                <option key={k} value={k}>{k}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <button
+                        onClick={() => replaceRows(randomDataset(featureCount))}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded transition-colors"
+                    >
+                        Random Data
+                    </button>
+                    <button
+                        onClick={() => setRows((prev) => [...prev, { features: new Array(featureCount).fill(0), y: 0 }])}
+                        className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded transition-colors"
+                    >
+                        Add Row
+                    </button>
+                </div>
+
+                <div className={`max-h-72 overflow-auto border rounded ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+                    <table className="w-full text-xs">
+                        <thead className={`sticky top-0 ${theme === "dark" ? "bg-gray-600 text-gray-200" : "bg-gray-50 text-gray-600"}`}>
+                            <tr>
+                                {Array.from({ length: featureCount }, (_, j) => (
+                                    <th key={j} className="text-left px-2 py-1">x{j + 1}</th>
+                                ))}
+                                <th className="text-left px-2 py-1">y</th>
+                                <th className="text-left px-2 py-1">ŷ</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((r, i) => (
+                                <tr key={`${version}-${i}`}>
+                                    {r.features.map((f, j) => (
+                                        <td key={j} className="px-1 py-1">
+                                            <input
+                                                type="number"
+                                                defaultValue={f}
+                                                onChange={(e) => updateCell(i, j, e.target.value)}
+                                                className={inputClass}
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="px-1 py-1">
+                                        <input
+                                            type="number"
+                                            defaultValue={r.y}
+                                            onChange={(e) => updateCell(i, featureCount, e.target.value)}
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                    <td className="px-2 py-1 font-mono">{fit.predict(r.features).toFixed(2)}</td>
+                                    <td className="px-1 py-1">
+                                        <button
+                                            onClick={() => replaceRows(rows.filter((_, k) => k !== i))}
+                                            className="text-red-500 hover:text-red-600 px-1"
+                                            title="Remove row"
+                                        >
+                                            ✕
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className={`overflow-x-auto border rounded ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+                    <table className="w-full text-xs">
+                        <thead className={theme === "dark" ? "bg-gray-600 text-gray-200" : "bg-gray-50 text-gray-600"}>
+                            <tr>
+                                <th className="text-left px-2 py-1">Coefficient</th>
+                                <th className="text-right px-2 py-1">Value</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {fit.coefficients.map((w, i) => (
+                                <tr key={i} className={`border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>
+                                    <td className="px-2 py-1 font-sans">{i === 0 ? "Intercept (w₀)" : `x${i} (w${i})`}</td>
+                                    <td className="px-2 py-1 text-right">{w.toFixed(4)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+                    <span>R²:</span>
+                    <span className="font-medium text-right">{fit.r2.toFixed(4)}</span>
+                    <span>Adjusted R²:</span>
+                    <span className="font-medium text-right">{Number.isFinite(fit.adjR2) ? fit.adjR2.toFixed(4) : "—"}</span>
+                    <span>Sum of Squared Residuals:</span>
+                    <span className="font-medium text-right">{fit.sse.toFixed(4)}</span>
+                </div>
+            </div>
+
+            <div>
+                {plot ? (
+                    <Suspense fallback={<div className="text-sm p-4">Loading 3D view...</div>}>
+                        <Plot
+                            data={[
+                                {
+                                    type: "scatter3d",
+                                    mode: "markers",
+                                    name: "data",
+                                    x: plot.x1,
+                                    y: plot.x2,
+                                    z: plot.y,
+                                    marker: { size: 4, color: "#2563eb" },
+                                },
+                                {
+                                    type: "scatter3d",
+                                    mode: "lines",
+                                    name: "residuals",
+                                    x: plot.residualX,
+                                    y: plot.residualY,
+                                    z: plot.residualZ,
+                                    line: { color: "#10b981", width: 2 },
+                                },
+                                {
+                                    type: "surface",
+                                    name: "fitted plane",
+                                    x: plot.g1,
+                                    y: plot.g2,
+                                    z: plot.z,
+                                    opacity: 0.55,
+                                    showscale: false,
+                                    colorscale: [[0, "#ef4444"], [1, "#f59e0b"]],
+                                },
+                            ]}
+                            layout={{
+                                autosize: true,
+                                height: 460,
+                                margin: { l: 0, r: 0, t: 10, b: 0 },
+                                paper_bgcolor: "rgba(0,0,0,0)",
+                                font: { color: fg },
+                                showlegend: false,
+                                scene: {
+                                    xaxis: { title: { text: "x1" } },
+                                    yaxis: { title: { text: "x2" } },
+                                    zaxis: { title: { text: "y" } },
+                                },
+                            }}
+                            config={{ displaylogo: false, responsive: true }}
+                            style={{ width: "100%" }}
+                            useResizeHandler
+                        />
+                    </Suspense>
+                ) : (
+                    <div className={`h-full flex items-center justify-center text-sm p-6 border rounded text-center ${theme === "dark"
+                        ? "border-gray-600 text-gray-400"
+                        : "border-gray-300 text-gray-500"
+                        }`}>
+                        With {featureCount} features the fitted hyperplane lives in {featureCount + 1} dimensions and
+                        can't be drawn. The coefficient table shows how much y changes per unit of each feature,
+                        holding the others fixed.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+
+const PADDING = 36;
+const COEFFICIENT_COLORS = [
+    "#2563eb", "#ef4444", "#10b981", "#f59e0b", "#8b5cf6",
+    "#ec4899", "#14b8a6", "#f97316", "#6366f1", "#84cc16",
+];
+
+type Props = {
+    path: { logLambda: number; coefficients: number[] }[];
+    names: string[];
+    logLambda: number;
+    theme: "light" | "dark";
+};
+
+// Each non-bias coefficient plotted against log10(λ)
+export default function RegularizationPath({ path, names, logLambda, theme }: Props) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || path.length === 0) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        const DPR = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        canvas.width = Math.floor(width * DPR);
+        canvas.height = Math.floor(height * DPR);
+        ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+        ctx.fillRect(0, 0, width, height);
+
+        const xMin = path[0].logLambda;
+        const xMax = path[path.length - 1].logLambda;
+        const all = path.flatMap((p) => p.coefficients).filter(Number.isFinite);
+        const yAbs = Math.max(1e-6, ...all.map(Math.abs)) * 1.1;
+        const toPx = (x: number, y: number) => ({
+            px: PADDING + ((x - xMin) / (xMax - xMin)) * (width - 2 * PADDING),
+            py: height / 2 - (y / yAbs) * (height / 2 - PADDING / 2),
+        });
+
+        ctx.strokeStyle = theme === "dark" ? "#374151" : "#e6e6e6";
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        const zero = toPx(xMin, 0);
+        ctx.moveTo(PADDING, zero.py);
+        ctx.lineTo(width - PADDING, zero.py);
+        ctx.stroke();
+
+        const count = path[0].coefficients.length;
+        for (let j = 0; j < count; j++) {
+            ctx.strokeStyle = COEFFICIENT_COLORS[j % COEFFICIENT_COLORS.length];
+            ctx.lineWidth = 1.8;
+            ctx.beginPath();
+            path.forEach((p, i) => {
+                const { px, py } = toPx(p.logLambda, p.coefficients[j]);
+                if (i === 0) ctx.moveTo(px, py);
+                else ctx.lineTo(px, py);
+            });
+            ctx.stroke();
+        }
+
+        const marker = toPx(logLambda, 0).px;
+        ctx.strokeStyle = theme === "dark" ? "#f3f4f6" : "#111827";
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(marker, PADDING / 2);
+        ctx.lineTo(marker, height - PADDING / 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = theme === "dark" ? "#9ca3af" : "#6b7280";
+        ctx.font = "11px sans-serif";
+        ctx.textAlign = "center";
+        for (let x = Math.ceil(xMin); x <= xMax; x++) {
+            ctx.fillText(`${x}`, toPx(x, 0).px, height - 4);
+        }
+        ctx.textAlign = "right";
+        ctx.fillText(yAbs.toFixed(2), PADDING - 4, PADDING / 2 + 8);
+        ctx.fillText((-yAbs).toFixed(2), PADDING - 4, height - PADDING / 2);
+        ctx.textAlign = "left";
+        ctx.fillText("coefficient vs log₁₀(λ)", PADDING, 12);
+    }, [path, logLambda, theme]);
+
+    return (
+        <div>
+            <canvas
+                ref={canvasRef}
+                style={{ width: "100%", height: 180 }}
+                className={`w-full rounded border ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}
+            />
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs">
+                {names.map((name, j) => (
+                    <span key={name} style={{ color: COEFFICIENT_COLORS[j % COEFFICIENT_COLORS.length] }}>
+                        ● {name}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -1,12 +1,118 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import BoundaryPanel from "../components/classification/BoundaryPanel";
+import DatasetGenerator from "../components/classification/DatasetGenerator";
+import MetricsPanel from "../components/classification/MetricsPanel";
+import SweepChart from "../components/classification/SweepChart";
+import TreeDiagram from "../components/classification/TreeDiagram";
+import WeightTable from "../components/classification/WeightTable";
 import { useTheme } from "../context/ThemeContext";
-
-type Label = "A" | "B";
-type Point = { x: number; y: number; label: Label };
+import {
+    buildFeatures,
+    complexitySweep,
+    covarianceAxes,
+    CUSTOM_FEATURES,
+    equalAspect,
+    fitGaussian,
+    forestProbabilities,
+    gaussianPosteriors,
+    generateClassificationDataset,
+    knnPredict,
+    knnProbabilities,
+    linearSvmWeights,
+    multiSvmProbabilities,
+    polynomialFeatures,
+    predictMultiSvm,
+    selectK,
+    softmax,
+    supportVectorIndices,
+    svmDecision,
+    trainForest,
+    trainLogistic,
+    trainMultiSvm,
+    trainSoftmax,
+    trainTree,
+    treeDepth,
+    treeLeaves,
+    treeProbabilities,
+    truncateTree,
+    type ClassificationDatasetOptions,
+    type CustomFeature,
+    type FeatureSpec,
+    type GaussianKind,
+    type KernelKind,
+    type MultiClassStrategy,
+    type MultiSvmModel,
+    type NamedFeatures,
+    type Penalty,
+    type Region,
+    type Sample,
+    type SplitCriterion,
+    type SweepPoint,
+    type TreeNode,
+} from "../utils/classifiers";
+import { heatColor, marchingSquares } from "../utils/math";
+import { createRng } from "../utils/random";
+
+const CLASS_LABELS = ["A", "B", "C", "D", "E", "F", "G", "H"] as const;
+// One colour per class, in label order
+const CLASS_COLORS = ["#2563eb", "#10b981", "#f59e0b", "#8b5cf6", "#ec4899", "#0891b2", "#84cc16", "#78716c"];
+
+type Label = (typeof CLASS_LABELS)[number];
+type Algorithm = "KNN" | "SVM" | "Logistic" | "Decision Tree" | "Random Forest" | "Naive Bayes" | "LDA" | "QDA";
+
+// Panel order in the comparison grid
+const ALGORITHMS: Algorithm[] = ["KNN", "SVM", "Logistic", "Decision Tree", "Random Forest", "Naive Bayes", "LDA", "QDA"];
+
+// Generative classifiers and the covariance structure each one fits
+const GAUSSIAN_KINDS: Partial<Record<Algorithm, GaussianKind>> = {
+    "Naive Bayes": "naive-bayes",
+    LDA: "lda",
+    QDA: "qda",
+};
+// Test points are held out of training and only used for evaluation
+type Point = { x: number; y: number; label: Label; test?: boolean };
+
+// Predicted class plus per-class probabilities (or normalised scores)
+type Prediction = { cls: number; probs: number[] };
+type ShadingMode = "gradient" | "regions" | "uncertainty";
+
+const CONTOUR_LEVELS = [0.1, 0.5, 0.9];
+
+// Complexity parameter swept for each algorithm family
+type SweepParam = "k" | "C" | "gamma" | "degree" | "lambda" | "depth";
+type Sweep = { algorithm: Algorithm; param: SweepParam; points: SweepPoint[] };
+
+const SWEEP_LABELS: Record<SweepParam, string> = {
+    k: "k (neighbours)",
+    C: "Penalty C",
+    gamma: "Gamma (γ)",
+    degree: "Polynomial degree",
+    lambda: "Regularization λ (strong → weak)",
+    depth: "Max depth",
+};
+const LOG_GRID_C = [0.01, 0.03, 0.1, 0.3, 1, 3, 10, 30, 100, 300, 1000];
+const LOG_GRID_GAMMA = [0.001, 0.003, 0.01, 0.03, 0.1, 0.3, 1, 3, 10];
+// Strongest penalty first, so complexity grows left to right like the other sweeps
+const LOG_GRID_LAMBDA = [1, 0.3, 0.1, 0.03, 0.01, 0.003, 0.001, 0.0003, 0.0001];
+
+// Logistic weights together with the feature map they were fitted on
+type LogisticFit<W> = { spec: FeatureSpec; features: NamedFeatures; weights: W };
+
+const DEFAULT_FEATURE_SPEC: FeatureSpec = { kind: "polynomial", degree: 2 };
+const INITIAL_LOG_FIT: LogisticFit<number[]> = {
+    spec: DEFAULT_FEATURE_SPEC,
+    features: buildFeatures(DEFAULT_FEATURE_SPEC, { x: 5, y: 5 }),
+    // [bias, x, y, x², xy, y²]
+    weights: Array.from({ length: 6 }, (_, i) => (i === 0 ? -2.0 : 0.5)),
+};
+
+const DEFAULT_DATASET: ClassificationDatasetOptions = { shape: "moons", count: 120, noise: 0.3, imbalance: 0, seed: 42 };
 
 const GRID_COLS = 80;
 const GRID_ROWS = 60;
 const PADDING = 40;
+// Pixels the mouse must move before a press counts as a pan rather than a click
+const MIN_DRAG = 4;
 
 // Helper component for blue formula boxes
 const FormulaBox = ({ children }: { children: React.ReactNode }) => (
@@ -19,17 +125,50 @@ function sigmoid(z: number) {
     return 1 / (1 + Math.exp(-z));
 }
 
-// Euclidean distance
-function dist(a: { x: number; y: number }, b: { x: number; y: number }) {
-    const dx = a.x - b.x;
-    const dy = a.y - b.y;
-    return Math.sqrt(dx * dx + dy * dy);
+function classIndex(label: Label) {
+    return CLASS_LABELS.indexOf(label);
+}
+
+function argmax(values: number[]) {
+    return values.indexOf(Math.max(...values));
+}
+
+function hexToRgb(hex: string) {
+    const n = parseInt(hex.slice(1), 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function fromProbabilities(probs: number[]): Prediction {
+    return { cls: argmax(probs), probs };
+}
+
+// Radial features are measured from the centre of the training points
+function centroid(samples: Sample[]) {
+    return {
+        x: samples.reduce((a, s) => a + s.x, 0) / samples.length,
+        y: samples.reduce((a, s) => a + s.y, 0) / samples.length,
+    };
+}
+
+// Scales a view about a data point; factor < 1 zooms in
+function zoomView({ xMin, xMax, yMin, yMax }: Region, factor: number, at: { x: number; y: number }): Region {
+    return {
+        xMin: at.x + (xMin - at.x) * factor,
+        xMax: at.x + (xMax - at.x) * factor,
+        yMin: at.y + (yMin - at.y) * factor,
+        yMax: at.y + (yMax - at.y) * factor,
+    };
+}
+
+// 0 when one class has all the probability, 1 when every class is equally likely
+function uncertainty(probs: number[]) {
+    return probs.length > 1 ? (1 - Math.max(...probs)) / (1 - 1 / probs.length) : 0;
 }
 
 export default function DecisionBoundariesPage() {
     const { theme } = useTheme();
 
-    const [algorithm, setAlgorithm] = useState<"KNN" | "SVM" | "Logistic">("Logistic");
+    const [algorithm, setAlgorithm] = useState<Algorithm>("Logistic");
     const [points, setPoints] = useState<Point[]>([
         { x: 1, y: 1, label: "A" },
         { x: 2, y: 2, label: "A" },
@@ -39,31 +178,91 @@ export default function DecisionBoundariesPage() {
         { x: 3, y: 1, label: "B" },
         { x: 4, y: 4, label: "A" },
     ]);
+    const [classCount, setClassCount] = useState<number>(2);
     const [kValue, setKValue] = useState<number>(5);
     const [svmW1, setSvmW1] = useState<number>(1.0);
     const [svmW2, setSvmW2] = useState<number>(1.0);
     const [svmB, setSvmB] = useState<number>(-2.0);
-    // 6 weights for [bias, x, y, x², xy, y²]
-    const [logW, setLogW] = useState<number[]>(Array.from({ length: 6 }, (_, i) => (i === 0 ? -2.0 : 0.5)));
+    const [logFit, setLogFit] = useState<LogisticFit<number[]>>(INITIAL_LOG_FIT);
     const [formX, setFormX] = useState<string>("");
     const [formY, setFormY] = useState<string>("");
     const [formLabel, setFormLabel] = useState<Label>("A");
     const [hoverCoords, setHoverCoords] = useState<{ x: number, y: number } | null>(null);
     const [isAnimating, setIsAnimating] = useState<boolean>(false);
+    const [svmC, setSvmC] = useState<number>(1);
+    const [svmKernel, setSvmKernel] = useState<KernelKind>("linear");
+    const [svmGamma, setSvmGamma] = useState<number>(0.5);
+    const [svmDegree, setSvmDegree] = useState<number>(3);
+    const [svmStrategy, setSvmStrategy] = useState<MultiClassStrategy>("ovr");
+    // Dual solutions from the last training run; drive kernel and multi-class SVMs and the support-vector rings
+    const [svmModel, setSvmModel] = useState<MultiSvmModel | null>(null);
+    // One weight row per class once softmax regression has been trained
+    const [softmaxFit, setSoftmaxFit] = useState<LogisticFit<number[][]> | null>(null);
+    // Feature map chosen in the panel; used from the next training run
+    const [featureSpec, setFeatureSpec] = useState<FeatureSpec>(DEFAULT_FEATURE_SPEC);
+    const [logPenalty, setLogPenalty] = useState<Penalty>("none");
+    const [logLambda, setLogLambda] = useState<number>(0.01);
+    const [logLearningRate, setLogLearningRate] = useState<number>(0.5);
+    const [logEpochs, setLogEpochs] = useState<number>(500);
+    const [treeMaxDepth, setTreeMaxDepth] = useState<number>(4);
+    const [treeMinSplit, setTreeMinSplit] = useState<number>(2);
+    const [treeCriterion, setTreeCriterion] = useState<SplitCriterion>("gini");
+    const [forestSize, setForestSize] = useState<number>(25);
+    const [tree, setTree] = useState<TreeNode | null>(null);
+    const [forest, setForest] = useState<TreeNode[] | null>(null);
+    // Forest member shown in the tree diagram
+    const [forestTreeIndex, setForestTreeIndex] = useState<number>(0);
+    // Diagram node under the mouse; its region is highlighted on the plot
+    const [hoveredNode, setHoveredNode] = useState<TreeNode | null>(null);
+    const [shadingMode, setShadingMode] = useState<ShadingMode>("gradient");
+    const [showContours, setShowContours] = useState<boolean>(true);
+    // Binary problems predict Class A when P(A) reaches this threshold
+    const [threshold, setThreshold] = useState<number>(0.5);
+    const [positiveClass, setPositiveClass] = useState<number>(0);
+    const [testPercent, setTestPercent] = useState<number>(30);
+    // While on, clicking the plot toggles the nearest point between train and test
+    const [markingTest, setMarkingTest] = useState<boolean>(false);
+    const [evaluationSet, setEvaluationSet] = useState<"train" | "test">("train");
+    const [sweep, setSweep] = useState<Sweep | null>(null);
+    const [logisticSweepChoice, setLogisticSweepChoice] = useState<SweepParam>("degree");
+    const [trainingSummary, setTrainingSummary] = useState<string | null>(null);
+    const [showComparison, setShowComparison] = useState<boolean>(false);
+    // Zoomed or panned view, shared by the plot and the comparison panels; null fits the data
+    const [viewport, setViewport] = useState<Region | null>(null);
+    const [lockAspect, setLockAspect] = useState<boolean>(false);
+
+    // Models are fitted on the training points only
+    const samples = useMemo<Sample[]>(
+        () => points.filter((p) => !p.test).map((p) => ({ x: p.x, y: p.y, cls: classIndex(p.label) })),
+        [points]
+    );
+    const testSamples = useMemo<Sample[]>(
+        () => points.filter((p) => p.test).map((p) => ({ x: p.x, y: p.y, cls: classIndex(p.label) })),
+        [points]
+    );
+
+    // Gaussian models have a closed-form fit, so they follow the points directly
+    const gaussianModel = useMemo(() => {
+        const kind = GAUSSIAN_KINDS[algorithm];
+        return kind && samples.length ? fitGaussian(samples, kind) : null;
+    }, [algorithm, samples]);
 
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationRef = useRef<number | null>(null);
+    // Press position and view at the start of a drag on the plot
+    const dragRef = useRef<{ x: number; y: number; view: Region; moved: boolean } | null>(null);
 
-    const getDomain = useCallback(() => {
+    // Data extent plus a margin, used until the user zooms or pans
+    const getDomain = useCallback((): Region => {
         if (points.length === 0) return { xMin: 0, xMax: 10, yMin: 0, yMax: 10 };
 
         const xs = points.map((p) => p.x);
         const ys = points.map((p) => p.y);
 
-        let xMin = Math.min(0, ...xs);
-        let xMax = Math.max(10, ...xs);
-        let yMin = Math.min(0, ...ys);
-        let yMax = Math.max(10, ...ys);
+        let xMin = Math.min(...xs);
+        let xMax = Math.max(...xs);
+        let yMin = Math.min(...ys);
+        let yMax = Math.max(...ys);
 
         const xRange = xMax - xMin || 10;
         const yRange = yMax - yMin || 10;
@@ -76,10 +275,18 @@ export default function DecisionBoundariesPage() {
         return { xMin, xMax, yMin, yMax };
     }, [points]);
 
-    const domain = getDomain();
+    const fittedDomain = useMemo(() => getDomain(), [getDomain]);
+    const domain = viewport ?? fittedDomain;
+
+    // Visible range on a canvas of the given size, honouring the aspect lock
+    const viewFor = useCallback(
+        (width: number, height: number) =>
+            lockAspect ? equalAspect(domain, width - PADDING * 2, height - PADDING * 2) : domain,
+        [domain, lockAspect]
+    );
 
     const dataToPixel = (x: number, y: number, width: number, height: number) => {
-        const { xMin, xMax, yMin, yMax } = domain;
+        const { xMin, xMax, yMin, yMax } = viewFor(width, height);
         const plotW = width - PADDING * 2;
         const plotH = height - PADDING * 2;
         const px = PADDING + ((x - xMin) / (xMax - xMin)) * plotW;
@@ -87,59 +294,205 @@ export default function DecisionBoundariesPage() {
         return { px, py };
     };
 
-    const pixelToData = (px: number, py: number, width: number, height: number) => {
-        const { xMin, xMax, yMin, yMax } = domain;
-        const plotW = width - PADDING * 2;
-        const plotH = height - PADDING * 2;
-        const x = xMin + ((px - PADDING) / plotW) * (xMax - xMin);
-        const y = yMax - ((py - PADDING) / plotH) * (yMax - yMin);
-        return { x, y };
-    };
-
-    const classifyGrid = useCallback(
-        (gx: number, gy: number): Label => {
-            if (algorithm === "KNN") {
-                if (points.length === 0) return "A";
-                const distances = points
-                    .map((p) => ({ p, d: dist({ x: gx, y: gy }, p) }))
-                    .sort((a, b) => a.d - b.d);
-
-                // Handle fractional k during animation
-                const kFractional = Math.max(1, Math.min(points.length, kValue));
-                const kFloor = Math.floor(kFractional);
-                const kCeil = Math.ceil(kFractional);
-                const weight = kFractional - kFloor;
-
-                const votesFloor = { A: 0, B: 0 };
-                const votesCeil = { A: 0, B: 0 };
-
-                for (let i = 0; i < kFloor; i++) {
-                    votesFloor[distances[i].p.label]++;
-                }
-                for (let i = 0; i < kCeil; i++) {
-                    votesCeil[distances[i].p.label]++;
-                }
+    const pixelToData = useCallback(
+        (px: number, py: number, width: number, height: number) => {
+            const { xMin, xMax, yMin, yMax } = viewFor(width, height);
+            const plotW = width - PADDING * 2;
+            const plotH = height - PADDING * 2;
+            const x = xMin + ((px - PADDING) / plotW) * (xMax - xMin);
+            const y = yMax - ((py - PADDING) / plotH) * (yMax - yMin);
+            return { x, y };
+        },
+        [viewFor]
+    );
 
-                // Interpolate between floor and ceil k values
-                const aVotes = votesFloor.A * (1 - weight) + votesCeil.A * weight;
-                const bVotes = votesFloor.B * (1 - weight) + votesCeil.B * weight;
+    // Linear SVMs use the (editable) primal weights, kernel SVMs the trained dual model
+    const svmScore = useCallback(
+        (gx: number, gy: number) => {
+            if (svmKernel === "linear") return svmW1 * gx + svmW2 * gy + svmB;
+            return svmModel ? svmDecision(svmModel.machines[0].model, gx, gy) : 0;
+        },
+        [svmKernel, svmW1, svmW2, svmB, svmModel]
+    );
 
-                return aVotes >= bVotes ? "A" : "B";
+    // Class probabilities at a point and the model's own prediction
+    const scoreGrid = useCallback(
+        (gx: number, gy: number): Prediction => {
+            const unknown = { cls: 0, probs: new Array(classCount).fill(1 / classCount) };
+            if (algorithm === "KNN") {
+                if (samples.length === 0) return unknown;
+                // Fractional k during animation gives the last neighbour a partial vote
+                const k = Math.max(1, Math.min(samples.length, kValue));
+                return { cls: knnPredict(samples, gx, gy, k), probs: knnProbabilities(samples, gx, gy, k, classCount) };
+            } else if (GAUSSIAN_KINDS[algorithm]) {
+                return gaussianModel ? fromProbabilities(gaussianPosteriors(gaussianModel, gx, gy, classCount)) : unknown;
+            } else if (algorithm === "Decision Tree") {
+                return tree ? fromProbabilities(treeProbabilities(tree, gx, gy)) : unknown;
+            } else if (algorithm === "Random Forest") {
+                return forest ? fromProbabilities(forestProbabilities(forest, gx, gy)) : unknown;
             } else if (algorithm === "SVM") {
-                const f = svmW1 * gx + svmW2 * gy + svmB;
-                return f >= 0 ? "A" : "B";
+                if (classCount === 2) {
+                    // Squash the signed distance so |f| = 1 (the margin) gives about 0.73
+                    const p = sigmoid(svmScore(gx, gy));
+                    return { cls: p >= 0.5 ? 0 : 1, probs: [p, 1 - p] };
+                }
+                if (!svmModel) return unknown;
+                return { cls: predictMultiSvm(svmModel, gx, gy), probs: multiSvmProbabilities(svmModel, gx, gy, classCount) };
             } else {
-                // Logistic Regression (Degree 2)
-                const features = [1, gx, gy, gx * gx, gx * gy, gy * gy];
+                // Logistic Regression on the fitted feature map
+                if (classCount > 2) {
+                    if (!softmaxFit) return unknown;
+                    const features = softmaxFit.features.map(gx, gy);
+                    return fromProbabilities(softmax(softmaxFit.weights.map((w) => w.reduce((z, wi, i) => z + wi * features[i], 0))));
+                }
+                const features = logFit.features.map(gx, gy);
                 let z = 0;
-                for (let i = 0; i < logW.length; i++) {
-                    z += (logW[i] || 0) * features[i];
+                for (let i = 0; i < logFit.weights.length; i++) {
+                    z += (logFit.weights[i] || 0) * features[i];
                 }
                 const p = sigmoid(z);
-                return p >= 0.5 ? "A" : "B";
+                return { cls: p >= 0.5 ? 0 : 1, probs: [p, 1 - p] };
             }
         },
-        [algorithm, kValue, points, svmW1, svmW2, svmB, logW]
+        [algorithm, classCount, kValue, samples, svmScore, svmModel, logFit, softmaxFit, tree, forest, gaussianModel]
+    );
+
+    // Prediction after applying the decision threshold (two classes only)
+    const classifyGrid = useCallback(
+        (gx: number, gy: number): Prediction => {
+            const prediction = scoreGrid(gx, gy);
+            if (classCount !== 2 || threshold === 0.5) return prediction;
+            return { ...prediction, cls: prediction.probs[0] >= threshold ? 0 : 1 };
+        },
+        [scoreGrid, classCount, threshold]
+    );
+
+    const evaluate = useCallback(
+        (list: Sample[]) => {
+            const predictions = list.map((s) => classifyGrid(s.x, s.y));
+            const actual = list.map((s) => s.cls);
+            const predicted = predictions.map((p) => p.cls);
+            return {
+                actual,
+                predicted,
+                probs: predictions.map((p) => p.probs),
+                accuracy: list.length ? predicted.filter((cls, i) => cls === actual[i]).length / list.length : null,
+            };
+        },
+        [classifyGrid]
+    );
+    const trainEvaluation = useMemo(() => evaluate(samples), [evaluate, samples]);
+    const testEvaluation = useMemo(() => evaluate(testSamples), [evaluate, testSamples]);
+    const evaluation = evaluationSet === "test" && testSamples.length ? testEvaluation : trainEvaluation;
+    const trainingAccuracy = trainEvaluation.accuracy;
+
+    const hoverPrediction = hoverCoords ? classifyGrid(hoverCoords.x, hoverCoords.y) : null;
+
+    // Every algorithm fitted to the same training points with the current
+    // panel settings, without animation, for the comparison grid
+    // Each comparison model is memoized on its own settings, so moving one
+    // algorithm's slider doesn't retrain the others
+    const comparisonReady = showComparison && new Set(samples.map((s) => s.cls)).size >= 2;
+    const comparisonK = Math.max(1, Math.min(samples.length, Math.round(kValue)));
+
+    const knnComparison = useMemo(() => {
+        if (!comparisonReady) return null;
+        return (x: number, y: number): Prediction => ({
+            cls: knnPredict(samples, x, y, comparisonK),
+            probs: knnProbabilities(samples, x, y, comparisonK, classCount),
+        });
+    }, [comparisonReady, samples, classCount, comparisonK]);
+
+    const gaussianComparison = useMemo(() => {
+        if (!comparisonReady) return null;
+        const fit = (kind: GaussianKind) => {
+            const model = fitGaussian(samples, kind);
+            return (x: number, y: number) => fromProbabilities(gaussianPosteriors(model, x, y, classCount));
+        };
+        return { "Naive Bayes": fit("naive-bayes"), LDA: fit("lda"), QDA: fit("qda") };
+    }, [comparisonReady, samples, classCount]);
+
+    const treeComparison = useMemo(() => {
+        if (!comparisonReady) return null;
+        const model = trainTree(samples, classCount, { maxDepth: treeMaxDepth, minSamplesSplit: treeMinSplit, criterion: treeCriterion });
+        return (x: number, y: number) => fromProbabilities(treeProbabilities(model, x, y));
+    }, [comparisonReady, samples, classCount, treeMaxDepth, treeMinSplit, treeCriterion]);
+
+    const forestComparison = useMemo(() => {
+        if (!comparisonReady) return null;
+        const options = { trees: forestSize, maxDepth: treeMaxDepth, minSamplesSplit: treeMinSplit, criterion: treeCriterion };
+        const model = trainForest(samples, classCount, options);
+        return (x: number, y: number) => fromProbabilities(forestProbabilities(model, x, y));
+    }, [comparisonReady, samples, classCount, forestSize, treeMaxDepth, treeMinSplit, treeCriterion]);
+
+    const svmComparison = useMemo(() => {
+        if (!comparisonReady) return null;
+        const kernel = { kind: svmKernel, gamma: svmGamma, degree: svmDegree, coef0: 1 };
+        const model = trainMultiSvm(samples, svmStrategy, { C: svmC, kernel });
+        return (x: number, y: number): Prediction => ({
+            cls: predictMultiSvm(model, x, y),
+            probs: multiSvmProbabilities(model, x, y, classCount),
+        });
+    }, [comparisonReady, samples, classCount, svmKernel, svmGamma, svmDegree, svmStrategy, svmC]);
+
+    const logisticComparison = useMemo(() => {
+        if (!comparisonReady) return null;
+        const features = buildFeatures(featureSpec, centroid(samples)).map;
+        const options = { learningRate: logLearningRate, epochs: logEpochs, penalty: logPenalty, lambda: logLambda };
+        const score = (weights: number[], f: number[]) => weights.reduce((z, w, i) => z + w * f[i], 0);
+        if (classCount > 2) {
+            const { weights } = trainSoftmax(samples, features, classCount, options);
+            return (x: number, y: number) => {
+                const f = features(x, y);
+                return fromProbabilities(softmax(weights.map((w) => score(w, f))));
+            };
+        }
+        const { weights } = trainLogistic(samples, features, options);
+        return (x: number, y: number): Prediction => {
+            const p = sigmoid(score(weights, features(x, y)));
+            return { cls: p >= 0.5 ? 0 : 1, probs: [p, 1 - p] };
+        };
+    }, [comparisonReady, samples, classCount, featureSpec, logLearningRate, logEpochs, logPenalty, logLambda]);
+
+    const comparisonModels = useMemo(() => {
+        if (!knnComparison || !gaussianComparison || !treeComparison || !forestComparison || !svmComparison || !logisticComparison) {
+            return null;
+        }
+        const models: Record<Algorithm, (x: number, y: number) => Prediction> = {
+            KNN: knnComparison,
+            SVM: svmComparison,
+            Logistic: logisticComparison,
+            "Decision Tree": treeComparison,
+            "Random Forest": forestComparison,
+            ...gaussianComparison,
+        };
+        return ALGORITHMS.map((algo) => ({ algorithm: algo, predict: models[algo] }));
+    }, [knnComparison, gaussianComparison, treeComparison, forestComparison, svmComparison, logisticComparison]);
+    // Binary panels use the same decision threshold as the main plot, applied
+    // after fitting so moving the slider doesn't retrain every model
+    const comparison = useMemo(() => {
+        if (!comparisonModels) return null;
+        const accuracyOn = (list: Sample[], predict: (x: number, y: number) => Prediction) =>
+            list.length ? list.filter((s) => predict(s.x, s.y).cls === s.cls).length / list.length : null;
+        return comparisonModels.map(({ algorithm: algo, predict: scorePoint }) => {
+            const predict =
+                classCount !== 2 || threshold === 0.5
+                    ? scorePoint
+                    : (x: number, y: number): Prediction => {
+                        const prediction = scorePoint(x, y);
+                        return { ...prediction, cls: prediction.probs[0] >= threshold ? 0 : 1 };
+                    };
+            return { algorithm: algo, predict, accuracy: { train: accuracyOn(samples, predict), test: accuracyOn(testSamples, predict) } };
+        });
+    }, [comparisonModels, classCount, threshold, samples, testSamples]);
+    const comparisonPoints = useMemo(
+        () => points.map((p) => ({ x: p.x, y: p.y, cls: classIndex(p.label), test: p.test })),
+        [points]
+    );
+
+    const zoomAt = useCallback(
+        (factor: number, at: { x: number; y: number }) => setViewport(zoomView(domain, factor, at)),
+        [domain]
     );
 
     useEffect(() => {
@@ -161,38 +514,115 @@ export default function DecisionBoundariesPage() {
         ctx.fillStyle = theme === "dark" ? "#0f172a" : "#ffffff";
         ctx.fillRect(0, 0, width, height);
 
-        const { xMin, xMax, yMin, yMax } = domain;
+        const { xMin, xMax, yMin, yMax } = viewFor(width, height);
         const plotW = width - PADDING * 2;
         const plotH = height - PADDING * 2;
 
+        // Points and overlays outside the view must not spill over the axes
+        const clipToPlot = () => {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(PADDING, PADDING, plotW, plotH);
+            ctx.clip();
+        };
+
         // Border box with theme
         ctx.strokeStyle = theme === "dark" ? "#475569" : "#334155";
         ctx.lineWidth = 1.2;
         ctx.strokeRect(PADDING, PADDING, plotW, plotH);
 
-        // Grid and decision colors
+        // Clamps a tree region to the visible domain and converts it to pixels
+        const regionRect = (region: TreeNode["region"]) => {
+            const topLeft = dataToPixel(Math.max(region.xMin, xMin), Math.min(region.yMax, yMax), width, height);
+            const bottomRight = dataToPixel(Math.min(region.xMax, xMax), Math.max(region.yMin, yMin), width, height);
+            return [topLeft.px, topLeft.py, bottomRight.px - topLeft.px, bottomRight.py - topLeft.py] as const;
+        };
+
+        // Fill colour for one prediction in the selected shading mode
+        const shade = ({ cls, probs }: Prediction) => {
+            if (shadingMode === "regions") return `${CLASS_COLORS[cls]}40`;
+            if (shadingMode === "uncertainty") return heatColor(uncertainty(probs), 0.55);
+            // Mix the class colours by probability; confident areas are more opaque
+            const rgb = [0, 0, 0];
+            probs.forEach((p, k) => hexToRgb(CLASS_COLORS[k]).forEach((v, i) => (rgb[i] += p * v)));
+            const alpha = 0.1 + 0.3 * Math.max(...probs);
+            return `rgba(${rgb.map(Math.round).join(",")},${alpha.toFixed(2)})`;
+        };
+
+        // Predictions on the grid, row-major from the top-left, reused for the contours
+        const grid: Prediction[] = [];
         for (let r = 0; r < GRID_ROWS; r++) {
             for (let c = 0; c < GRID_COLS; c++) {
                 const gx = xMin + (c / (GRID_COLS - 1)) * (xMax - xMin);
                 const gy = yMax - (r / (GRID_ROWS - 1)) * (yMax - yMin);
-                const label = classifyGrid(gx, gy);
-                const px = PADDING + (c / (GRID_COLS - 1)) * plotW;
-                const py = PADDING + (r / (GRID_ROWS - 1)) * plotH;
+                grid.push(classifyGrid(gx, gy));
+            }
+        }
+
+        if (algorithm === "Decision Tree" && tree) {
+            // Trees partition the plane into axis-aligned rectangles, one per leaf
+            ctx.strokeStyle = theme === "dark" ? "#475569" : "#cbd5e1";
+            ctx.lineWidth = 1;
+            for (const leaf of treeLeaves(tree)) {
+                const rect = regionRect(leaf.region);
+                if (rect[2] <= 0 || rect[3] <= 0) continue;
+                const total = leaf.counts.reduce((a, b) => a + b, 0);
+                ctx.fillStyle = shade(fromProbabilities(leaf.counts.map((n) => n / total)));
+                ctx.fillRect(...rect);
+                ctx.strokeRect(...rect);
+            }
+        } else {
+            // Grid and decision colors
+            grid.forEach((prediction, i) => {
+                const px = PADDING + ((i % GRID_COLS) / (GRID_COLS - 1)) * plotW;
+                const py = PADDING + (Math.floor(i / GRID_COLS) / (GRID_ROWS - 1)) * plotH;
                 ctx.beginPath();
                 ctx.arc(px, py, 2.8, 0, Math.PI * 2);
-                ctx.fillStyle = label === "A" ? "rgba(59,130,246,0.25)" : "rgba(16,185,129,0.25)";
+                ctx.fillStyle = shade(prediction);
                 ctx.fill();
+            });
+        }
+
+        // Iso-probability lines; with two classes P(B) = 1 − P(A), so one class suffices
+        const drawContours = (values: number[], level: number) => {
+            ctx.beginPath();
+            for (const seg of marchingSquares(values, GRID_COLS, GRID_ROWS, level)) {
+                ctx.moveTo(PADDING + (seg.x1 / (GRID_COLS - 1)) * plotW, PADDING + (seg.y1 / (GRID_ROWS - 1)) * plotH);
+                ctx.lineTo(PADDING + (seg.x2 / (GRID_COLS - 1)) * plotW, PADDING + (seg.y2 / (GRID_ROWS - 1)) * plotH);
             }
+            ctx.stroke();
+        };
+        if (showContours) {
+            for (let k = 0; k < (classCount === 2 ? 1 : classCount); k++) {
+                const values = grid.map((g) => g.probs[k]);
+                ctx.strokeStyle = classCount === 2 ? (theme === "dark" ? "#e2e8f0" : "#334155") : CLASS_COLORS[k];
+                for (const level of CONTOUR_LEVELS) {
+                    ctx.setLineDash(level === 0.5 ? [] : [3, 3]);
+                    ctx.lineWidth = level === 0.5 ? 1.5 : 1;
+                    drawContours(values, level);
+                }
+            }
+            ctx.setLineDash([]);
+        }
+
+        if (hoveredNode && (algorithm === "Decision Tree" || algorithm === "Random Forest")) {
+            const rect = regionRect(hoveredNode.region);
+            ctx.fillStyle = "rgba(250,204,21,0.25)";
+            ctx.fillRect(...rect);
+            ctx.strokeStyle = theme === "dark" ? "#fde047" : "#ca8a04";
+            ctx.lineWidth = 2.5;
+            ctx.strokeRect(...rect);
         }
 
-        // Axis ticks with theme
+        // Axis ticks with theme; enough decimals to tell neighbouring ticks apart when zoomed in
+        const tickDigits = (range: number) => Math.max(0, Math.ceil(-Math.log10(range / 5)));
         ctx.fillStyle = theme === "dark" ? "#94a3b8" : "#475569";
         ctx.font = "12px Inter";
         ctx.textAlign = "center";
         for (let i = 0; i <= 5; i++) {
             const val = xMin + (i / 5) * (xMax - xMin);
             const { px } = dataToPixel(val, yMin, width, height);
-            ctx.fillText(val.toFixed(0), px, PADDING + plotH + 10);
+            ctx.fillText(val.toFixed(tickDigits(xMax - xMin)), px, PADDING + plotH + 10);
         }
 
         ctx.textAlign = "right";
@@ -200,28 +630,48 @@ export default function DecisionBoundariesPage() {
         for (let i = 0; i <= 5; i++) {
             const val = yMin + (i / 5) * (yMax - yMin);
             const { py } = dataToPixel(xMin, val, width, height);
-            ctx.fillText(val.toFixed(0), PADDING - 8, py);
+            ctx.fillText(val.toFixed(tickDigits(yMax - yMin)), PADDING - 8, py);
         }
 
-        // Draw actual class points
+        // Draw actual class points: training points as discs, test points as hollow diamonds
+        clipToPlot();
         for (const p of points) {
             const { px, py } = dataToPixel(p.x, p.y, width, height);
             ctx.beginPath();
+            if (p.test) {
+                ctx.moveTo(px, py - 8);
+                ctx.lineTo(px + 8, py);
+                ctx.lineTo(px, py + 8);
+                ctx.lineTo(px - 8, py);
+                ctx.closePath();
+                ctx.fillStyle = theme === "dark" ? "#0f172a" : "#ffffff";
+                ctx.fill();
+                ctx.lineWidth = 3;
+                ctx.strokeStyle = CLASS_COLORS[classIndex(p.label)];
+                ctx.stroke();
+                continue;
+            }
             ctx.arc(px, py, 7, 0, Math.PI * 2);
-            ctx.fillStyle = p.label === "A" ? "#2563eb" : "#10b981";
+            ctx.fillStyle = CLASS_COLORS[classIndex(p.label)];
             ctx.fill();
             ctx.lineWidth = 2;
             ctx.strokeStyle = theme === "dark" ? "#1e293b" : "#ffffff";
             ctx.stroke();
         }
+        ctx.restore();
 
         // Class labels with theme
         ctx.font = "13px Inter";
         ctx.textAlign = "center"; // Centered legend text
-        ctx.fillStyle = "#2563eb";
-        ctx.fillText("Class A Points", PADDING + 60, PADDING + plotH + 32);
-        ctx.fillStyle = "#10b981";
-        ctx.fillText("Class B Points", PADDING + 180, PADDING + plotH + 32);
+        const legendSpacing = Math.min(120, plotW / classCount);
+        for (let i = 0; i < classCount; i++) {
+            ctx.fillStyle = CLASS_COLORS[i];
+            ctx.fillText(
+                classCount === 2 ? `Class ${CLASS_LABELS[i]} Points` : `Class ${CLASS_LABELS[i]}`,
+                PADDING + legendSpacing * (i + 0.5),
+                PADDING + plotH + 32
+            );
+        }
 
         // Display hover coordinates
         if (hoverCoords) {
@@ -231,56 +681,116 @@ export default function DecisionBoundariesPage() {
             ctx.fillText(`(${hoverCoords.x.toFixed(2)}, ${hoverCoords.y.toFixed(2)})`, 10, 20);
         }
 
-        // Decision boundary contour for logistic / svm
-        if (algorithm === "Logistic") {
+        clipToPlot();
+
+        // Decision boundary contour for binary logistic / svm
+        if (algorithm === "Logistic" && classCount === 2) {
             ctx.strokeStyle = "#0ea5e9"; // Blue for Logistic
             ctx.lineWidth = 1.8;
+            drawContours(grid.map((g) => g.probs[0]), threshold);
+        } else if (algorithm === "SVM" && classCount === 2) {
+            const values: number[] = [];
             for (let r = 0; r < GRID_ROWS; r++) {
                 for (let c = 0; c < GRID_COLS; c++) {
                     const gx = xMin + (c / (GRID_COLS - 1)) * (xMax - xMin);
                     const gy = yMax - (r / (GRID_ROWS - 1)) * (yMax - yMin);
-                    const features = [1, gx, gy, gx * gx, gx * gy, gy * gy];
-                    let z = 0;
-                    for (let i = 0; i < logW.length; i++) z += (logW[i] || 0) * features[i];
-                    const p = sigmoid(z);
-
-                    // Draw contour where probability is 0.5
-                    if (Math.abs(p - 0.5) < 0.05) {
-                        const px = PADDING + (c / (GRID_COLS - 1)) * plotW;
-                        const py = PADDING + (r / (GRID_ROWS - 1)) * plotH;
-                        ctx.beginPath();
-                        ctx.arc(px, py, 2.5, 0, Math.PI * 2);
-                        ctx.fillStyle = "#0ea5e9";
-                        ctx.fill();
-                    }
+                    values.push(svmScore(gx, gy));
                 }
             }
-        } else if (algorithm === "SVM") {
+
+            // Solid boundary where σ(f) equals the threshold (f = 0 at 0.5), dashed margins at f = ±1
+            const boundary = Math.log(threshold / (1 - threshold));
+            const contours: [number, number[], number][] = [[boundary, [], 2], [1, [6, 4], 1.25], [-1, [6, 4], 1.25]];
             ctx.strokeStyle = "#e11d48"; // Red for SVM
-            ctx.lineWidth = 1.8;
-            for (let r = 0; r < GRID_ROWS; r++) {
-                for (let c = 0; c < GRID_COLS; c++) {
-                    const gx = xMin + (c / (GRID_COLS - 1)) * (xMax - xMin);
-                    const gy = yMax - (r / (GRID_ROWS - 1)) * (yMax - yMin);
+            for (const [level, dash, lineWidth] of contours) {
+                ctx.setLineDash(dash);
+                ctx.lineWidth = lineWidth;
+                drawContours(values, level);
+            }
+            ctx.setLineDash([]);
+        }
 
-                    // Use the SVM decision function
-                    const f = svmW1 * gx + svmW2 * gy + svmB;
-
-                    // Draw contour where f is 0
-                    if (Math.abs(f) < 0.08) { // Use a small threshold
-                        const px = PADDING + (c / (GRID_COLS - 1)) * plotW;
-                        const py = PADDING + (r / (GRID_ROWS - 1)) * plotH;
-                        ctx.beginPath();
-                        ctx.arc(px, py, 2.5, 0, Math.PI * 2);
-                        ctx.fillStyle = "#e11d48";
-                        ctx.fill();
+        // Class means with 1σ (solid) and 2σ (dashed) covariance ellipses
+        if (gaussianModel) {
+            for (const { cls, mean, cov } of gaussianModel.classes) {
+                const { major, minor, angle } = covarianceAxes(cov);
+                const cos = Math.cos(angle);
+                const sin = Math.sin(angle);
+                ctx.strokeStyle = CLASS_COLORS[cls];
+                ctx.lineWidth = 1.5;
+                for (const k of [1, 2]) {
+                    ctx.setLineDash(k === 1 ? [] : [6, 4]);
+                    ctx.beginPath();
+                    // Trace in data space so the ellipse follows the axis scaling
+                    for (let i = 0; i <= 64; i++) {
+                        const t = (i / 64) * Math.PI * 2;
+                        const u = k * major * Math.cos(t);
+                        const v = k * minor * Math.sin(t);
+                        const { px, py } = dataToPixel(mean.x + u * cos - v * sin, mean.y + u * sin + v * cos, width, height);
+                        if (i === 0) ctx.moveTo(px, py);
+                        else ctx.lineTo(px, py);
                     }
+                    ctx.stroke();
+                }
+                ctx.setLineDash([]);
+
+                const { px, py } = dataToPixel(mean.x, mean.y, width, height);
+                ctx.lineWidth = 2.5;
+                ctx.beginPath();
+                ctx.moveTo(px - 6, py - 6);
+                ctx.lineTo(px + 6, py + 6);
+                ctx.moveTo(px + 6, py - 6);
+                ctx.lineTo(px - 6, py + 6);
+                ctx.stroke();
+            }
+        }
+
+        // Support vectors of every binary machine
+        if (algorithm === "SVM" && svmModel) {
+            ctx.strokeStyle = theme === "dark" ? "#fbbf24" : "#d97706";
+            ctx.lineWidth = 2;
+            for (const { model } of svmModel.machines) {
+                for (const i of supportVectorIndices(model)) {
+                    const sv = model.samples[i];
+                    const { px, py } = dataToPixel(sv.x, sv.y, width, height);
+                    ctx.beginPath();
+                    ctx.arc(px, py, 11, 0, Math.PI * 2);
+                    ctx.stroke();
                 }
             }
         }
-    }, [points, classifyGrid, algorithm, theme, kValue, svmW1, svmW2, svmB, logW, domain, hoverCoords]);
+        ctx.restore();
+    }, [points, classifyGrid, algorithm, classCount, theme, kValue, svmScore, svmModel, tree, hoveredNode, gaussianModel, shadingMode, showContours, threshold, viewFor, hoverCoords]);
+
+    // Wheel zooms about the cursor. React registers wheel listeners as passive,
+    // so page scrolling can only be prevented from a native listener.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const width = canvas.clientWidth;
+            const height = canvas.clientHeight;
+            const at = pixelToData(e.clientX - rect.left, e.clientY - rect.top, width, height);
+            setViewport(zoomView(viewFor(width, height), e.deltaY < 0 ? 0.8 : 1.25, at));
+        };
+        canvas.addEventListener("wheel", handleWheel, { passive: false });
+        return () => canvas.removeEventListener("wheel", handleWheel);
+    }, [pixelToData, viewFor]);
+
+    const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (e.button !== 0) return;
+        const canvas = e.target as HTMLCanvasElement;
+        dragRef.current = { x: e.clientX, y: e.clientY, view: viewFor(canvas.clientWidth, canvas.clientHeight), moved: false };
+    };
 
     const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        // The release at the end of a pan is not a click
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (drag?.moved) return;
+
         const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
         const width = (e.target as HTMLCanvasElement).clientWidth;
         const height = (e.target as HTMLCanvasElement).clientHeight;
@@ -290,6 +800,22 @@ export default function DecisionBoundariesPage() {
 
         const { x, y } = pixelToData(xPx, yPx, width, height);
 
+        if (markingTest) {
+            // Toggle the nearest point within a few pixels
+            let nearest = -1;
+            let nearestDist = 12;
+            points.forEach((p, i) => {
+                const { px, py } = dataToPixel(p.x, p.y, width, height);
+                const d = Math.hypot(px - xPx, py - yPx);
+                if (d < nearestDist) {
+                    nearest = i;
+                    nearestDist = d;
+                }
+            });
+            if (nearest >= 0) setPoints((prev) => prev.map((p, i) => (i === nearest ? { ...p, test: !p.test } : p)));
+            return;
+        }
+
         if (xPx > PADDING && xPx < width - PADDING && yPx > PADDING && yPx < height - PADDING) {
             if (isFinite(x) && isFinite(y)) {
                 setPoints((p) => [
@@ -308,6 +834,22 @@ export default function DecisionBoundariesPage() {
         const xPx = e.clientX - rect.left;
         const yPx = e.clientY - rect.top;
 
+        // Dragging with the left button pans the view
+        const drag = dragRef.current;
+        if (drag && e.buttons & 1) {
+            const dx = e.clientX - drag.x;
+            const dy = e.clientY - drag.y;
+            if (drag.moved || Math.abs(dx) + Math.abs(dy) > MIN_DRAG) {
+                drag.moved = true;
+                const { xMin, xMax, yMin, yMax } = drag.view;
+                const shiftX = (-dx / (width - PADDING * 2)) * (xMax - xMin);
+                const shiftY = (dy / (height - PADDING * 2)) * (yMax - yMin);
+                setViewport({ xMin: xMin + shiftX, xMax: xMax + shiftX, yMin: yMin + shiftY, yMax: yMax + shiftY });
+            }
+        } else if (drag) {
+            dragRef.current = null;
+        }
+
         if (xPx > PADDING && xPx < width - PADDING && yPx > PADDING && yPx < height - PADDING) {
             const { x, y } = pixelToData(xPx, yPx, width, height);
             setHoverCoords({ x, y });
@@ -318,6 +860,7 @@ export default function DecisionBoundariesPage() {
 
     const handleCanvasMouseLeave = () => {
         setHoverCoords(null);
+        dragRef.current = null;
     };
 
     const addFromForm = () => {
@@ -334,93 +877,240 @@ export default function DecisionBoundariesPage() {
         setPoints([]);
     };
 
-    // FIXED: Improved animation with smoother transitions
-    const animateBoundary = () => {
+    // Replaces the points with a preset dataset; the old sweep no longer applies
+    const generateData = (opts: ClassificationDatasetOptions) => {
+        const generated = generateClassificationDataset(opts, classCount, createRng(opts.seed));
+        setPoints(generated.map((s) => ({ x: s.x, y: s.y, label: CLASS_LABELS[s.cls] })));
+        setMarkingTest(false);
+        setSweep(null);
+    };
+
+    // Holds out a random testPercent of the points
+    const randomSplit = () => {
+        const order = points.map((_, i) => i);
+        for (let i = order.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+        const testIndices = new Set(order.slice(0, Math.round((points.length * testPercent) / 100)));
+        setPoints((prev) => prev.map((p, i) => ({ ...p, test: testIndices.has(i) })));
+    };
+
+    const clearSplit = () => {
+        setPoints((prev) => prev.map((p) => ({ ...p, test: false })));
+        setMarkingTest(false);
+    };
+
+    // Logistic sweeps: degree needs polynomial features, λ needs a selected penalty
+    const logisticSweepParams: SweepParam[] = [
+        ...(featureSpec.kind === "polynomial" ? ["degree" as const] : []),
+        ...(logPenalty !== "none" ? ["lambda" as const] : []),
+    ];
+    const logisticSweepParam = logisticSweepParams.includes(logisticSweepChoice)
+        ? logisticSweepChoice
+        : (logisticSweepParams[0] ?? null);
+
+    // Refits the current algorithm across its main complexity parameter and
+    // records train/test accuracy for each value
+    const runSweep = () => {
+        if (new Set(samples.map((s) => s.cls)).size < 2) {
+            setTrainingSummary("Add training points from at least two classes to run a sweep.");
+            return;
+        }
+        const treeOptions = { minSamplesSplit: treeMinSplit, criterion: treeCriterion };
+        let param: SweepParam;
+        let values: number[];
+        let fit: (value: number) => (x: number, y: number) => number;
+
+        if (algorithm === "KNN") {
+            param = "k";
+            values = Array.from({ length: Math.min(15, samples.length) }, (_, i) => i + 1);
+            fit = (k) => (x, y) => knnPredict(samples, x, y, k);
+        } else if (algorithm === "SVM") {
+            param = svmKernel === "linear" ? "C" : "gamma";
+            values = param === "C" ? LOG_GRID_C : LOG_GRID_GAMMA;
+            fit = (value) => {
+                const kernel = { kind: svmKernel, gamma: param === "gamma" ? value : svmGamma, degree: svmDegree, coef0: 1 };
+                const model = trainMultiSvm(samples, svmStrategy, { C: param === "C" ? value : svmC, kernel });
+                return (x, y) => predictMultiSvm(model, x, y);
+            };
+        } else if (algorithm === "Logistic") {
+            if (!logisticSweepParam) return;
+            param = logisticSweepParam;
+            // The current λ joins the grid so the chart can mark it
+            values = param === "degree"
+                ? [1, 2, 3, 4, 5, 6]
+                : [...new Set([...LOG_GRID_LAMBDA, logLambda])].sort((a, b) => b - a);
+            fit = (value) => {
+                // Degree sweeps keep the chosen penalty; λ sweeps keep the chosen feature map
+                const features = param === "degree" ? polynomialFeatures(value) : buildFeatures(featureSpec, centroid(samples)).map;
+                const lambda = param === "lambda" ? value : logLambda;
+                const options = { learningRate: logLearningRate, epochs: logEpochs, penalty: logPenalty, lambda };
+                const score = (weights: number[], x: number, y: number) =>
+                    features(x, y).reduce((z, f, i) => z + weights[i] * f, 0);
+                if (classCount > 2) {
+                    const { weights } = trainSoftmax(samples, features, classCount, options);
+                    return (x, y) => argmax(weights.map((w) => score(w, x, y)));
+                }
+                const { weights } = trainLogistic(samples, features, options);
+                return (x, y) => (score(weights, x, y) >= 0 ? 0 : 1);
+            };
+        } else if (algorithm === "Decision Tree" || algorithm === "Random Forest") {
+            param = "depth";
+            values = Array.from({ length: 10 }, (_, i) => i + 1);
+            fit = (maxDepth) => {
+                if (algorithm === "Decision Tree") {
+                    const model = trainTree(samples, classCount, { maxDepth, ...treeOptions });
+                    return (x, y) => argmax(treeProbabilities(model, x, y));
+                }
+                const model = trainForest(samples, classCount, { trees: forestSize, maxDepth, ...treeOptions });
+                return (x, y) => argmax(forestProbabilities(model, x, y));
+            };
+        } else {
+            return;
+        }
+        setSweep({ algorithm, param, points: complexitySweep(values, fit, samples, testSamples) });
+    };
+
+    const sweepCurrent: Record<SweepParam, number> = {
+        k: Math.round(kValue),
+        C: svmC,
+        gamma: svmGamma,
+        degree: featureSpec.kind === "polynomial" ? featureSpec.degree : NaN,
+        lambda: logLambda,
+        depth: treeMaxDepth,
+    };
+
+    // Points of removed classes are dropped; trained multi-class models no longer fit
+    const changeClassCount = (count: number) => {
+        setClassCount(count);
+        setPoints((prev) => prev.filter((p) => classIndex(p.label) < count));
+        if (classIndex(formLabel) >= count) setFormLabel("A");
+        setSvmModel(null);
+        setSoftmaxFit(null);
+        setTree(null);
+        setForest(null);
+        setHoveredNode(null);
+        setPositiveClass((cls) => (cls < count ? cls : 0));
+    };
+
+    // Trains the selected model on the current points, then replays the
+    // recorded parameter history so the boundary can be watched converging.
+    const trainModel = () => {
         if (isAnimating) return;
+        if (new Set(samples.map((s) => s.cls)).size < 2) {
+            setTrainingSummary("Add training points from at least two classes to train.");
+            return;
+        }
+
+        if (gaussianModel) {
+            setTrainingSummary(
+                `Fitted ${gaussianModel.classes.length} class Gaussians in closed form; the model updates as points change`
+            );
+            return;
+        }
 
-        setIsAnimating(true);
         const duration = 2000;
         let startTime: number | null = null;
-
-        // Store initial values
-        const initialK = kValue;
-        const initialSvmW1 = svmW1;
-        const initialSvmW2 = svmW2;
-        const initialSvmB = svmB;
-        const initialLogW = [...logW];
-
-        // Calculate target values based on current data
-        let targetK = initialK;
-        let targetSvmW1 = initialSvmW1;
-        let targetSvmW2 = initialSvmW2;
-        let targetSvmB = initialSvmB;
-        let targetLogW = [...initialLogW];
-
-        // Calculate targets based on data distribution
-        const aPts = points.filter((p) => p.label === "A");
-        const bPts = points.filter((p) => p.label === "B");
-
-        if (aPts.length && bPts.length) {
-            const aCx = aPts.reduce((s, p) => s + p.x, 0) / aPts.length;
-            const aCy = aPts.reduce((s, p) => s + p.y, 0) / aPts.length;
-            const bCx = bPts.reduce((s, p) => s + p.x, 0) / bPts.length;
-            const bCy = bPts.reduce((s, p) => s + p.y, 0) / bPts.length;
-
-            // For KNN: use fractional k for smoother animation
-            targetK = Math.max(1, Math.min(15, Math.sqrt(points.length) || 3));
-
-            // For SVM: target weights pointing from class B to class A
-            targetSvmW1 = aCx - bCx;
-            targetSvmW2 = aCy - bCy;
-            targetSvmB = -((targetSvmW1 * (aCx + bCx) / 2) + (targetSvmW2 * (aCy + bCy) / 2));
-
-            // Normalize SVM weights for better visualization
-            const svmNorm = Math.sqrt(targetSvmW1 * targetSvmW1 + targetSvmW2 * targetSvmW2) || 1;
-            targetSvmW1 /= svmNorm * 0.5;
-            targetSvmW2 /= svmNorm * 0.5;
-
-            // For Logistic: more reasonable weights
-            targetLogW = [
-                -2.5, // bias
-                targetSvmW1 * 0.8, // x coefficient
-                targetSvmW2 * 0.8, // y coefficient
-                0.3, // x² coefficient
-                0.1, // xy coefficient  
-                0.3 // y² coefficient
-            ];
+        let applyFrame: (progress: number) => void;
+
+        if (algorithm === "KNN") {
+            const initialK = kValue;
+            const { k, accuracy } = selectK(samples, 15);
+            setTrainingSummary(`Best k = ${k} (leave-one-out accuracy ${(accuracy * 100).toFixed(0)}%)`);
+            applyFrame = (progress) => {
+                // Smoother easing function
+                const ease = progress < 0.5 ? 2 * progress * progress : -1 + (4 - 2 * progress) * progress;
+                // Use fractional k during animation for smoother transitions
+                setKValue(progress < 1 ? initialK + (k - initialK) * ease : k);
+            };
+        } else if (algorithm === "SVM") {
+            const kernel = { kind: svmKernel, gamma: svmGamma, degree: svmDegree, coef0: 1 };
+            const { histories, ...result } = trainMultiSvm(samples, svmStrategy, { C: svmC, kernel });
+            const sweeps = Math.max(...histories.map((h) => h.length - 1));
+            const supportCount = result.machines.reduce((n, m) => n + supportVectorIndices(m.model).length, 0);
+            const machineCount = result.machines.length;
+            setTrainingSummary(
+                `SMO trained ${machineCount} machine${machineCount === 1 ? "" : "s"} in up to ${sweeps} sweeps with ${supportCount} support vectors`
+            );
+            applyFrame = (progress) => {
+                // Each machine replays its own history over the same duration
+                const frame: MultiSvmModel = {
+                    ...result,
+                    machines: result.machines.map((m, i) => {
+                        const history = histories[i];
+                        return { ...m, model: { ...m.model, ...history[Math.round(progress * (history.length - 1))] } };
+                    }),
+                };
+                setSvmModel(frame);
+                if (kernel.kind === "linear" && classCount === 2) {
+                    const { w1, w2, b } = linearSvmWeights(frame.machines[0].model);
+                    setSvmW1(w1);
+                    setSvmW2(w2);
+                    setSvmB(b);
+                }
+            };
+        } else if (algorithm === "Decision Tree") {
+            const result = trainTree(samples, classCount, {
+                maxDepth: treeMaxDepth,
+                minSamplesSplit: treeMinSplit,
+                criterion: treeCriterion,
+            });
+            const depth = treeDepth(result);
+            setTrainingSummary(`Grew ${treeLeaves(result).length} leaves with depth ${depth}`);
+            setHoveredNode(null);
+            applyFrame = (progress) => {
+                // Grow one level at a time
+                setTree(truncateTree(result, Math.round(progress * depth)));
+            };
+        } else if (algorithm === "Random Forest") {
+            const result = trainForest(samples, classCount, {
+                trees: forestSize,
+                maxDepth: treeMaxDepth,
+                minSamplesSplit: treeMinSplit,
+                criterion: treeCriterion,
+            });
+            const meanLeaves = result.reduce((n, t) => n + treeLeaves(t).length, 0) / result.length;
+            setTrainingSummary(`Grew ${result.length} trees with ${meanLeaves.toFixed(1)} leaves on average`);
+            setHoveredNode(null);
+            setForestTreeIndex(0);
+            applyFrame = (progress) => {
+                // Add trees to the ensemble one by one
+                setForest(result.slice(0, Math.max(1, Math.round(progress * result.length))));
+            };
+        } else {
+            const spec = featureSpec;
+            const features = buildFeatures(spec, centroid(samples));
+            const options = { learningRate: logLearningRate, epochs: logEpochs, penalty: logPenalty, lambda: logLambda };
+            const describe = (loss: string, weights: number[]) => {
+                const zeroed = weights.filter((w, i) => i > 0 && w === 0).length;
+                const sparsity = logPenalty === "l1" ? `; L1 zeroed ${zeroed} of ${weights.length - 1} feature weights` : "";
+                return `${loss} after ${logEpochs} epochs of gradient descent${sparsity}`;
+            };
+            if (classCount > 2) {
+                const result = trainSoftmax(samples, features.map, classCount, options);
+                setTrainingSummary(describe(`Cross-entropy ${result.loss.toFixed(4)}`, result.weights.flat()));
+                applyFrame = (progress) => {
+                    setSoftmaxFit({ spec, features, weights: result.history[Math.round(progress * (result.history.length - 1))] });
+                };
+            } else {
+                const result = trainLogistic(samples, features.map, options);
+                setTrainingSummary(describe(`Log-loss ${result.loss.toFixed(4)}`, result.weights));
+                applyFrame = (progress) => {
+                    setLogFit({ spec, features, weights: result.history[Math.round(progress * (result.history.length - 1))] });
+                };
+            }
         }
 
+        setIsAnimating(true);
         const animate = (timestamp: number) => {
             if (!startTime) startTime = timestamp;
             const progress = Math.min((timestamp - startTime) / duration, 1);
-
-            // Smoother easing function
-            const easeProgress = progress < 0.5
-                ? 2 * progress * progress
-                : -1 + (4 - 2 * progress) * progress;
-
-            if (algorithm === "KNN") {
-                // FIXED: Use fractional k during animation for smoother transitions
-                const newK = initialK + (targetK - initialK) * easeProgress;
-                setKValue(newK); // Keep as float during animation
-            } else if (algorithm === "SVM") {
-                setSvmW1(initialSvmW1 + (targetSvmW1 - initialSvmW1) * easeProgress);
-                setSvmW2(initialSvmW2 + (targetSvmW2 - initialSvmW2) * easeProgress);
-                setSvmB(initialSvmB + (targetSvmB - initialSvmB) * easeProgress);
-            } else if (algorithm === "Logistic") {
-                const newWeights = initialLogW.map((initial, i) =>
-                    initial + (targetLogW[i] - initial) * easeProgress
-                );
-                setLogW(newWeights);
-            }
+            applyFrame(progress);
 
             if (progress < 1) {
                 animationRef.current = requestAnimationFrame(animate);
             } else {
-                // Final cleanup - round K value for KNN
-                if (algorithm === "KNN") {
-                    setKValue(Math.round(targetK));
-                }
                 setIsAnimating(false);
                 animationRef.current = null;
             }
@@ -438,10 +1128,6 @@ export default function DecisionBoundariesPage() {
         };
     }, []);
 
-    const setLogWAt = (i: number, value: number) => {
-        setLogW((prev) => prev.map((v, idx) => (idx === i ? value : v)));
-    };
-
     return (
         <div
             className={`p-6 max-w-[1200px] mx-auto min-h-screen ${theme === "dark"
@@ -459,6 +1145,20 @@ export default function DecisionBoundariesPage() {
                     }`}>
                     <h2 className="font-bold mb-3">Algorithm Parameters</h2>
 
+                    <label className="text-sm block mb-2">Number of classes:</label>
+                    <select
+                        value={classCount}
+                        onChange={(e) => changeClassCount(Number(e.target.value))}
+                        className={`w-full mb-4 p-2 border rounded ${theme === "dark"
+                            ? "bg-gray-700 border-gray-600 text-white"
+                            : "bg-white border-gray-300"
+                            }`}
+                    >
+                        {[2, 3, 4, 5, 6, 7, 8].map((n) => (
+                            <option key={n} value={n}>{n} classes ({CLASS_LABELS.slice(0, n).join(", ")})</option>
+                        ))}
+                    </select>
+
                     <label className="text-sm block mb-2">Algorithm:</label>
                     <select
                         value={algorithm}
@@ -469,10 +1169,92 @@ export default function DecisionBoundariesPage() {
                             }`}
                     >
                         <option value="Logistic">Logistic Regression (Polynomial)</option>
-                        <option value="SVM">Support Vector Machine (Linear)</option>
+                        <option value="SVM">Support Vector Machine (Kernel)</option>
                         <option value="KNN">K-Nearest Neighbors</option>
+                        <option value="Decision Tree">Decision Tree (CART)</option>
+                        <option value="Random Forest">Random Forest</option>
+                        <option value="Naive Bayes">Gaussian Naive Bayes</option>
+                        <option value="LDA">Linear Discriminant Analysis</option>
+                        <option value="QDA">Quadratic Discriminant Analysis</option>
                     </select>
 
+                    {gaussianModel && (
+                        <>
+                            <div className={`text-sm mb-2 font-medium ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                                Fitted class Gaussians
+                            </div>
+                            <div className="space-y-1 font-mono text-xs overflow-x-auto">
+                                {gaussianModel.classes.map(({ cls, prior, mean, cov }) => (
+                                    <div key={cls} style={{ color: CLASS_COLORS[cls] }}>
+                                        {CLASS_LABELS[cls]}: π={prior.toFixed(2)} μ=({mean.x.toFixed(2)}, {mean.y.toFixed(2)}) Σ=[{cov.sxx.toFixed(2)}, {cov.sxy.toFixed(2)}; {cov.sxy.toFixed(2)}, {cov.syy.toFixed(2)}]
+                                    </div>
+                                ))}
+                            </div>
+                            <div className={`text-xs mt-2 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Ellipses show 1σ (solid) and 2σ (dashed) contours around each class mean (×)
+                            </div>
+                        </>
+                    )}
+
+                    {(algorithm === "Decision Tree" || algorithm === "Random Forest") && (
+                        <>
+                            <label className="text-sm block mb-2">Split criterion:</label>
+                            <select
+                                value={treeCriterion}
+                                onChange={(e) => setTreeCriterion(e.target.value as SplitCriterion)}
+                                className={`w-full mb-3 p-2 border rounded ${theme === "dark"
+                                    ? "bg-gray-700 border-gray-600 text-white"
+                                    : "bg-white border-gray-300"
+                                    }`}
+                            >
+                                <option value="gini">Gini impurity</option>
+                                <option value="entropy">Entropy (information gain)</option>
+                            </select>
+
+                            <label className="text-sm">Max depth: {treeMaxDepth}</label>
+                            <input
+                                type="range"
+                                min={1}
+                                max={10}
+                                value={treeMaxDepth}
+                                onChange={(e) => setTreeMaxDepth(Number(e.target.value))}
+                                className="w-full mt-3"
+                            />
+                            <label className="text-sm">Min samples to split: {treeMinSplit}</label>
+                            <input
+                                type="range"
+                                min={2}
+                                max={20}
+                                value={treeMinSplit}
+                                onChange={(e) => setTreeMinSplit(Number(e.target.value))}
+                                className="w-full mt-3"
+                            />
+
+                            {algorithm === "Random Forest" && (
+                                <>
+                                    <label className="text-sm">Trees: {forestSize}</label>
+                                    <input
+                                        type="range"
+                                        min={1}
+                                        max={100}
+                                        value={forestSize}
+                                        onChange={(e) => setForestSize(Number(e.target.value))}
+                                        className="w-full mt-3"
+                                    />
+                                </>
+                            )}
+                            <div className={`text-xs mt-1 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Deeper trees = finer rectangles that can overfit, shallow trees = coarse regions
+                            </div>
+
+                            {(algorithm === "Decision Tree" ? !tree : !forest) && (
+                                <div className="text-xs mt-1 mb-3 text-yellow-500">
+                                    Press Train Model to grow the {algorithm === "Decision Tree" ? "tree" : "forest"}.
+                                </div>
+                            )}
+                        </>
+                    )}
+
                     {algorithm === "KNN" && (
                         <>
                             <label className="text-sm">
@@ -495,84 +1277,308 @@ export default function DecisionBoundariesPage() {
 
                     {algorithm === "SVM" && (
                         <>
-                            <label className="text-sm">Weight w1: {svmW1.toFixed(2)}</label>
+                            <label className="text-sm block mb-2">Kernel:</label>
+                            <select
+                                value={svmKernel}
+                                onChange={(e) => {
+                                    setSvmKernel(e.target.value as KernelKind);
+                                    setSvmModel(null);
+                                }}
+                                className={`w-full mb-3 p-2 border rounded ${theme === "dark"
+                                    ? "bg-gray-700 border-gray-600 text-white"
+                                    : "bg-white border-gray-300"
+                                    }`}
+                            >
+                                <option value="linear">Linear</option>
+                                <option value="polynomial">Polynomial</option>
+                                <option value="rbf">RBF (Gaussian)</option>
+                                <option value="sigmoid">Sigmoid</option>
+                            </select>
+
+                            {classCount > 2 && (
+                                <>
+                                    <label className="text-sm block mb-2">Multi-class strategy:</label>
+                                    <select
+                                        value={svmStrategy}
+                                        onChange={(e) => {
+                                            setSvmStrategy(e.target.value as MultiClassStrategy);
+                                            setSvmModel(null);
+                                        }}
+                                        className={`w-full mb-3 p-2 border rounded ${theme === "dark"
+                                            ? "bg-gray-700 border-gray-600 text-white"
+                                            : "bg-white border-gray-300"
+                                            }`}
+                                    >
+                                        <option value="ovr">One-vs-Rest</option>
+                                        <option value="ovo">One-vs-One</option>
+                                    </select>
+                                </>
+                            )}
+
+                            <label className="text-sm">Penalty C: {svmC.toPrecision(2)}</label>
                             <input
                                 type="range"
-                                min={-5}
-                                max={5}
+                                min={-2}
+                                max={3}
                                 step={0.1}
-                                value={svmW1}
-                                onChange={(e) => setSvmW1(Number(e.target.value))}
+                                value={Math.log10(svmC)}
+                                onChange={(e) => setSvmC(Number((10 ** Number(e.target.value)).toPrecision(2)))}
                                 className="w-full mt-3"
                             />
-                            <label className="text-sm mt-3">Weight w2: {svmW2.toFixed(2)}</label>
+                            <div className={`text-xs mt-1 mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Small C = wider margin that tolerates violations, large C = harder margin
+                            </div>
+
+                            {svmKernel !== "linear" && (
+                                <>
+                                    <label className="text-sm">Gamma (γ): {svmGamma.toPrecision(2)}</label>
+                                    <input
+                                        type="range"
+                                        min={-3}
+                                        max={1}
+                                        step={0.1}
+                                        value={Math.log10(svmGamma)}
+                                        onChange={(e) => {
+                                            setSvmGamma(Number((10 ** Number(e.target.value)).toPrecision(2)));
+                                            setSvmModel(null);
+                                        }}
+                                        className="w-full mt-3"
+                                    />
+                                </>
+                            )}
+
+                            {svmKernel === "polynomial" && (
+                                <>
+                                    <label className="text-sm">Degree: {svmDegree}</label>
+                                    <input
+                                        type="range"
+                                        min={2}
+                                        max={6}
+                                        value={svmDegree}
+                                        onChange={(e) => {
+                                            setSvmDegree(Number(e.target.value));
+                                            setSvmModel(null);
+                                        }}
+                                        className="w-full mt-3"
+                                    />
+                                </>
+                            )}
+
+                            {(svmKernel !== "linear" || classCount > 2) && !svmModel && (
+                                <div className="text-xs mt-1 mb-3 text-yellow-500">
+                                    {classCount > 2
+                                        ? "Multi-class SVMs combine several trained machines; press Train Model to fit them."
+                                        : "Kernel SVMs have no editable weights; press Train Model to fit one."}
+                                </div>
+                            )}
+
+                            {svmKernel === "linear" && classCount === 2 && (
+                                <>
+                                    <label className="text-sm">Weight w1: {svmW1.toFixed(2)}</label>
+                                    <input
+                                        type="range"
+                                        min={-5}
+                                        max={5}
+                                        step={0.1}
+                                        value={svmW1}
+                                        onChange={(e) => {
+                                            setSvmW1(Number(e.target.value));
+                                            setSvmModel(null);
+                                        }}
+                                        className="w-full mt-3"
+                                    />
+                                    <label className="text-sm mt-3">Weight w2: {svmW2.toFixed(2)}</label>
+                                    <input
+                                        type="range"
+                                        min={-5}
+                                        max={5}
+                                        step={0.1}
+                                        value={svmW2}
+                                        onChange={(e) => {
+                                            setSvmW2(Number(e.target.value));
+                                            setSvmModel(null);
+                                        }}
+                                        className="w-full mt-3"
+                                    />
+                                    <label className="text-sm mt-3">Bias: {svmB.toFixed(2)}</label>
+                                    <input
+                                        type="range"
+                                        min={-10}
+                                        max={10}
+                                        step={0.1}
+                                        value={svmB}
+                                        onChange={(e) => {
+                                            setSvmB(Number(e.target.value));
+                                            setSvmModel(null);
+                                        }}
+                                        className="w-full mt-3 mb-4"
+                                    />
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {algorithm === "Logistic" && (
+                        <>
+                            <label className="text-sm block mb-2">Feature map:</label>
+                            <select
+                                value={featureSpec.kind === "polynomial" ? `poly-${featureSpec.degree}` : "custom"}
+                                onChange={(e) =>
+                                    setFeatureSpec(
+                                        e.target.value === "custom"
+                                            ? { kind: "custom", features: ["x", "y", "r²"] }
+                                            : { kind: "polynomial", degree: Number(e.target.value.slice(5)) }
+                                    )
+                                }
+                                className={`w-full mb-3 p-2 border rounded ${theme === "dark"
+                                    ? "bg-gray-700 border-gray-600 text-white"
+                                    : "bg-white border-gray-300"
+                                    }`}
+                            >
+                                {[1, 2, 3, 4, 5, 6].map((d) => (
+                                    <option key={d} value={`poly-${d}`}>Polynomial, degree {d}</option>
+                                ))}
+                                <option value="custom">Custom features</option>
+                            </select>
+
+                            {featureSpec.kind === "custom" && (
+                                <div className="grid grid-cols-3 gap-1 mb-3 text-sm">
+                                    {(Object.keys(CUSTOM_FEATURES) as CustomFeature[]).map((f) => (
+                                        <label key={f} className="flex items-center gap-1 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={featureSpec.features.includes(f)}
+                                                onChange={(e) =>
+                                                    setFeatureSpec({
+                                                        kind: "custom",
+                                                        features: e.target.checked
+                                                            ? [...featureSpec.features, f]
+                                                            : featureSpec.features.filter((g) => g !== f),
+                                                    })
+                                                }
+                                                className="rounded"
+                                            />
+                                            {f}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <div className={`text-xs mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                φ(x) = [{buildFeatures(featureSpec, { x: 0, y: 0 }).names.join(", ")}]
+                                {featureSpec.kind === "custom" && " — r is the distance from the centre of the training points"}
+                            </div>
+
+                            <label className="text-sm block mb-2">Regularization:</label>
+                            <select
+                                value={logPenalty}
+                                onChange={(e) => setLogPenalty(e.target.value as Penalty)}
+                                className={`w-full mb-3 p-2 border rounded ${theme === "dark"
+                                    ? "bg-gray-700 border-gray-600 text-white"
+                                    : "bg-white border-gray-300"
+                                    }`}
+                            >
+                                <option value="none">None</option>
+                                <option value="l1">L1 (lasso) — drives weights to exactly 0</option>
+                                <option value="l2">L2 (ridge) — shrinks all weights</option>
+                            </select>
+                            {logPenalty !== "none" && (
+                                <>
+                                    <label className="text-sm">Strength λ: {logLambda.toPrecision(2)}</label>
+                                    <input
+                                        type="range"
+                                        min={-4}
+                                        max={0}
+                                        step={0.1}
+                                        value={Math.log10(logLambda)}
+                                        onChange={(e) => setLogLambda(Number((10 ** Number(e.target.value)).toPrecision(2)))}
+                                        className="w-full mt-3"
+                                    />
+                                </>
+                            )}
+
+                            <label className="text-sm">Learning rate: {logLearningRate.toPrecision(2)}</label>
                             <input
                                 type="range"
-                                min={-5}
-                                max={5}
+                                min={-3}
+                                max={1}
                                 step={0.1}
-                                value={svmW2}
-                                onChange={(e) => setSvmW2(Number(e.target.value))}
+                                value={Math.log10(logLearningRate)}
+                                onChange={(e) => setLogLearningRate(Number((10 ** Number(e.target.value)).toPrecision(2)))}
                                 className="w-full mt-3"
                             />
-                            <label className="text-sm mt-3">Bias: {svmB.toFixed(2)}</label>
+                            <label className="text-sm">Epochs: {logEpochs}</label>
                             <input
                                 type="range"
-                                min={-10}
-                                max={10}
-                                step={0.1}
-                                value={svmB}
-                                onChange={(e) => setSvmB(Number(e.target.value))}
-                                className="w-full mt-3 mb-4"
+                                min={50}
+                                max={3000}
+                                step={50}
+                                value={logEpochs}
+                                onChange={(e) => setLogEpochs(Number(e.target.value))}
+                                className="w-full mt-3 mb-3"
                             />
-                        </>
-                    )}
 
-                    {algorithm === "Logistic" && (
-                        <>
-                            <div className={`text-sm mb-2 font-medium ${theme === "dark" ? "text-gray-300" : "text-gray-600"
-                                }`}>
-                                Polynomial Degree 2 Weights
-                            </div>
-                            <div className={`text-xs mb-2 ${theme === "dark" ? "text-gray-400" : "text-gray-500"
-                                }`}>
-                                (bias, x, y, x², xy, y²)
-                            </div>
-                            <div className="space-y-2">
-                                {logW.map((w, i) => (
-                                    <div key={i}>
-                                        <label className="text-sm">
-                                            w{i}: {w.toFixed(2)}
-                                        </label>
-                                        <input
-                                            type="range"
-                                            min={-6}
-                                            max={6}
-                                            step={0.05}
-                                            value={w}
-                                            onChange={(e) => setLogWAt(i, Number(e.target.value))}
-                                            className="w-full"
-                                        />
-                                    </div>
-                                ))}
+                            {(classCount > 2 ? softmaxFit?.spec : logFit.spec) !== featureSpec && (
+                                <div className="text-xs mt-1 mb-3 text-yellow-500">
+                                    {classCount > 2 && !softmaxFit
+                                        ? "Softmax regression learns one weight row per class; press Train Model to fit them."
+                                        : "The feature map has changed; press Train Model to learn weights for it."}
+                                </div>
+                            )}
+                            <div className={`text-sm mb-2 font-medium ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                                Learned Weights
                             </div>
+                            {classCount > 2 ? (
+                                softmaxFit && (
+                                    <WeightTable
+                                        names={softmaxFit.features.names}
+                                        columns={softmaxFit.weights.map((weights, k) => ({
+                                            label: CLASS_LABELS[k],
+                                            color: CLASS_COLORS[k],
+                                            weights,
+                                        }))}
+                                        theme={theme}
+                                    />
+                                )
+                            ) : (
+                                <WeightTable
+                                    names={logFit.features.names}
+                                    columns={[{ label: "w", color: CLASS_COLORS[0], weights: logFit.weights }]}
+                                    theme={theme}
+                                />
+                            )}
                         </>
                     )}
 
                     <button
-                        onClick={animateBoundary}
+                        onClick={trainModel}
                         disabled={isAnimating}
                         className={`mt-5 w-full py-2 rounded shadow transition-colors ${isAnimating
                             ? "bg-gray-400 cursor-not-allowed"
                             : "bg-blue-600 hover:bg-blue-700 text-white"
                             }`}
                     >
-                        {isAnimating ? "Animating..." : "Animate Boundary"}
+                        {isAnimating ? "Training..." : "Train Model"}
                     </button>
 
                     {isAnimating && (
                         <div className="mt-3 text-sm text-blue-600 text-center">
-                            Adjusting {algorithm} parameters to fit the data...
+                            Replaying {algorithm} training on the data...
+                        </div>
+                    )}
+                    {trainingSummary && !isAnimating && (
+                        <div className={`mt-3 text-sm text-center ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                            {trainingSummary}
+                        </div>
+                    )}
+                    {trainingAccuracy !== null && (
+                        <div className={`mt-1 text-sm text-center ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                            Training accuracy: <span className="font-medium">{(trainingAccuracy * 100).toFixed(1)}%</span>
+                        </div>
+                    )}
+                    {testEvaluation.accuracy !== null && (
+                        <div className={`mt-1 text-sm text-center ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                            Test accuracy: <span className="font-medium">{(testEvaluation.accuracy * 100).toFixed(1)}%</span>
+                            <span className="text-xs"> ({testSamples.length} held-out points)</span>
                         </div>
                     )}
                 </div>
@@ -580,19 +1586,172 @@ export default function DecisionBoundariesPage() {
                 {/* RIGHT COLUMN - CHART */}
                 <div className={`col-span-12 md:col-span-8 border rounded-lg p-5 shadow-sm ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"
                     }`}>
+                    <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+                        <label className="flex items-center gap-2">
+                            Shading:
+                            <select
+                                value={shadingMode}
+                                onChange={(e) => setShadingMode(e.target.value as ShadingMode)}
+                                className={`p-1 border rounded ${theme === "dark"
+                                    ? "bg-gray-700 border-gray-600 text-white"
+                                    : "bg-white border-gray-300"
+                                    }`}
+                            >
+                                <option value="gradient">Probability gradient</option>
+                                <option value="regions">Hard regions</option>
+                                <option value="uncertainty">Uncertainty</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={showContours}
+                                onChange={(e) => setShowContours(e.target.checked)}
+                                className="rounded"
+                            />
+                            Iso-probability contours (0.1 / 0.5 / 0.9)
+                        </label>
+                        {shadingMode === "uncertainty" && (
+                            <span className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                purple = confident, yellow = classes equally likely
+                            </span>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={lockAspect}
+                                onChange={(e) => setLockAspect(e.target.checked)}
+                                className="rounded"
+                            />
+                            Lock aspect ratio (1:1)
+                        </label>
+                        <button
+                            onClick={() => setViewport(null)}
+                            disabled={!viewport}
+                            className={`px-3 py-1 rounded transition-colors disabled:opacity-50 ${theme === "dark" ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-100 hover:bg-gray-200"}`}
+                        >
+                            Fit to Data
+                        </button>
+                        <span className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                            Scroll to zoom, drag to pan
+                        </span>
+                    </div>
                     <canvas
                         ref={canvasRef}
                         onClick={handleCanvasClick}
+                        onMouseDown={handleCanvasMouseDown}
                         onMouseMove={handleCanvasMouseMove}
                         onMouseLeave={handleCanvasMouseLeave}
                         className="w-full h-[400px] cursor-crosshair"
                     />
+                    {algorithm === "Decision Tree" && tree && (
+                        <div className={`mt-4 pt-4 border-t ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`}>
+                            <h3 className="font-semibold mb-2 text-sm">Tree Diagram</h3>
+                            <TreeDiagram
+                                root={tree}
+                                labels={CLASS_LABELS}
+                                colors={CLASS_COLORS}
+                                highlightedId={hoveredNode?.id ?? null}
+                                theme={theme}
+                                onHover={setHoveredNode}
+                            />
+                        </div>
+                    )}
+                    {algorithm === "Random Forest" && forest && (
+                        <div className={`mt-4 pt-4 border-t ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`}>
+                            <div className="flex items-center gap-3 mb-2">
+                                <h3 className="font-semibold text-sm">
+                                    Tree {Math.min(forestTreeIndex, forest.length - 1) + 1} of {forest.length}
+                                </h3>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={forest.length - 1}
+                                    value={Math.min(forestTreeIndex, forest.length - 1)}
+                                    onChange={(e) => {
+                                        setForestTreeIndex(Number(e.target.value));
+                                        setHoveredNode(null);
+                                    }}
+                                    className="flex-1"
+                                />
+                            </div>
+                            <TreeDiagram
+                                root={forest[Math.min(forestTreeIndex, forest.length - 1)]}
+                                labels={CLASS_LABELS}
+                                colors={CLASS_COLORS}
+                                highlightedId={hoveredNode?.id ?? null}
+                                theme={theme}
+                                onHover={setHoveredNode}
+                            />
+                        </div>
+                    )}
                     {hoverCoords && (
                         <div className={`text-sm mt-3 text-center ${theme === "dark" ? "text-gray-300" : "text-gray-600"
                             }`}>
                             Hover: ({hoverCoords.x.toFixed(2)}, {hoverCoords.y.toFixed(2)})
+                            {hoverPrediction && (
+                                <span className="ml-3 font-mono text-xs">
+                                    {hoverPrediction.probs.map((p, k) => `P(${CLASS_LABELS[k]}) = ${p.toFixed(2)}`).join("  ")}
+                                </span>
+                            )}
                         </div>
                     )}
+
+                    <div className={`mt-4 pt-4 border-t ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`}>
+                        <div className="flex items-center gap-3 mb-2">
+                            <h3 className="font-semibold text-sm">Complexity Sweep</h3>
+                            {algorithm === "Logistic" && logisticSweepParams.length > 1 && (
+                                <select
+                                    value={logisticSweepParam ?? undefined}
+                                    onChange={(e) => setLogisticSweepChoice(e.target.value as SweepParam)}
+                                    className={`ml-auto mr-2 p-1 border rounded text-sm ${theme === "dark"
+                                        ? "bg-gray-700 border-gray-600 text-white"
+                                        : "bg-white border-gray-300"
+                                        }`}
+                                >
+                                    {logisticSweepParams.map((param) => (
+                                        <option key={param} value={param}>{param === "degree" ? "Degree" : "λ"}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <button
+                                onClick={runSweep}
+                                disabled={!!GAUSSIAN_KINDS[algorithm] || (algorithm === "Logistic" && !logisticSweepParam) || isAnimating}
+                                className={`${algorithm === "Logistic" && logisticSweepParams.length > 1 ? "" : "ml-auto "}bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white px-3 py-1 rounded text-sm transition-colors`}
+                            >
+                                Run Sweep
+                            </button>
+                        </div>
+                        {GAUSSIAN_KINDS[algorithm] ? (
+                            <p className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Gaussian models have no complexity setting to sweep; compare Naive Bayes, LDA and QDA instead.
+                            </p>
+                        ) : algorithm === "Logistic" && !logisticSweepParam ? (
+                            <p className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Pick polynomial features to sweep the degree, or an L1/L2 penalty to sweep its strength λ.
+                            </p>
+                        ) : sweep && sweep.algorithm === algorithm ? (
+                            <>
+                                <SweepChart
+                                    points={sweep.points}
+                                    xLabel={SWEEP_LABELS[sweep.param]}
+                                    theme={theme}
+                                    current={sweepCurrent[sweep.param]}
+                                />
+                                <p className={`text-xs mt-2 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                    {testSamples.length
+                                        ? "Training accuracy keeps rising with complexity while test accuracy peaks and falls: left of the peak the model underfits, right of it it overfits."
+                                        : "Hold out some test points to see where extra complexity stops helping."}
+                                </p>
+                            </>
+                        ) : (
+                            <p className={`text-xs ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Refit the model for a range of {algorithm === "KNN" ? "k values" : algorithm === "SVM" ? (svmKernel === "linear" ? "C values" : "γ values") : algorithm === "Logistic" ? (logisticSweepParam === "degree" ? "polynomial degrees" : `${logPenalty === "l1" ? "L1" : "L2"} strengths λ on the selected features`) : "tree depths"} and compare training with test accuracy.
+                            </p>
+                        )}
+                    </div>
                 </div>
             </div>
 
@@ -628,8 +1787,9 @@ export default function DecisionBoundariesPage() {
                         value={formLabel}
                         onChange={(e) => setFormLabel(e.target.value as Label)}
                     >
-                        <option value="A">Class A</option>
-                        <option value="B">Class B</option>
+                        {CLASS_LABELS.slice(0, classCount).map((l) => (
+                            <option key={l} value={l}>Class {l}</option>
+                        ))}
                     </select>
 
                     <button
@@ -645,12 +1805,158 @@ export default function DecisionBoundariesPage() {
                         Clear Data
                     </button>
                 </div>
+
+                <div className={`flex flex-wrap gap-3 items-center mt-4 pt-4 border-t text-sm ${theme === "dark" ? "border-gray-700" : "border-gray-200"}`}>
+                    <span className="font-medium">Train/test split:</span>
+                    <label className="flex items-center gap-2">
+                        Test {testPercent}%
+                        <input
+                            type="range"
+                            min={10}
+                            max={50}
+                            step={5}
+                            value={testPercent}
+                            onChange={(e) => setTestPercent(Number(e.target.value))}
+                        />
+                    </label>
+                    <button
+                        onClick={randomSplit}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded transition-colors"
+                    >
+                        Random Split
+                    </button>
+                    <button
+                        onClick={() => setMarkingTest((m) => !m)}
+                        className={`px-3 py-1 rounded transition-colors ${markingTest
+                            ? "bg-orange-500 hover:bg-orange-600 text-white"
+                            : theme === "dark" ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-100 hover:bg-gray-200"
+                            }`}
+                    >
+                        {markingTest ? "Done Marking" : "Mark as Test"}
+                    </button>
+                    <button
+                        onClick={clearSplit}
+                        className={`px-3 py-1 rounded transition-colors ${theme === "dark" ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-100 hover:bg-gray-200"}`}
+                    >
+                        Clear Split
+                    </button>
+                    <span className={`ml-auto ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                        {samples.length} train · {testSamples.length} test (◇)
+                    </span>
+                    {markingTest && (
+                        <span className="w-full text-xs text-orange-500">
+                            Click a point on the plot to move it between the training and test sets.
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            <div className={`border rounded-lg p-5 shadow-sm my-6 ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"
+                }`}>
+                <h3 className="font-semibold mb-3">Generate Dataset</h3>
+                <DatasetGenerator initial={DEFAULT_DATASET} classCount={classCount} theme={theme} onGenerate={generateData} />
             </div>
 
             {/* ================================================================= */}
             {/* All cards below */}
             {/* ================================================================= */}
             <div className="space-y-6"> {/* Removed mt-6, now handled by form margin */}
+                {/* ALGORITHM COMPARISON */}
+                <div className={`border rounded-lg p-5 shadow-sm ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"
+                    }`}>
+                    <div className="flex flex-wrap items-center gap-3 mb-3">
+                        <h3 className="font-semibold">Compare Algorithms</h3>
+                        <button
+                            onClick={() => setShowComparison((v) => !v)}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
+                        >
+                            {showComparison ? "Hide Comparison" : "Show Comparison"}
+                        </button>
+                        {showComparison && (
+                            <button
+                                onClick={() => setViewport(null)}
+                                disabled={!viewport}
+                                className={`px-3 py-1 rounded text-sm transition-colors disabled:opacity-50 ${theme === "dark" ? "bg-gray-700 hover:bg-gray-600" : "bg-gray-100 hover:bg-gray-200"}`}
+                            >
+                                Fit to Data
+                            </button>
+                        )}
+                        {showComparison && hoverCoords && (
+                            <span className={`ml-auto text-sm font-mono ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                ({hoverCoords.x.toFixed(2)}, {hoverCoords.y.toFixed(2)})
+                            </span>
+                        )}
+                    </div>
+                    {!showComparison ? (
+                        <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                            Fit every classifier to the same training points and view their decision boundaries side by side.
+                        </p>
+                    ) : !comparison ? (
+                        <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                            Add training points from at least two classes to compare classifiers.
+                        </p>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                                {comparison.map(({ algorithm: algo, predict, accuracy }) => (
+                                    <BoundaryPanel
+                                        key={algo}
+                                        title={algo}
+                                        predict={predict}
+                                        points={comparisonPoints}
+                                        view={domain}
+                                        lockAspect={lockAspect}
+                                        accuracy={accuracy}
+                                        labels={CLASS_LABELS}
+                                        colors={CLASS_COLORS}
+                                        hover={hoverCoords}
+                                        onHover={setHoverCoords}
+                                        onZoom={zoomAt}
+                                        theme={theme}
+                                    />
+                                ))}
+                            </div>
+                            <p className={`text-xs mt-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Each panel is trained on the training points with the settings from the left panel (k, C and kernel, features, depth, …).
+                                {classCount === 2 && ` Points count as Class A when P(A) ≥ ${threshold.toFixed(2)}, the threshold set under Model Evaluation.`}
+                                Panels share the main plot's view: scroll over any of them to zoom all, and the crosshair follows the mouse across panels and the plot.
+                            </p>
+                        </>
+                    )}
+                </div>
+
+                {/* EVALUATION */}
+                <div className={`border rounded-lg p-5 shadow-sm ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"
+                    }`}>
+                    <div className="flex flex-wrap items-center gap-3 mb-3">
+                        <h3 className="font-semibold">Model Evaluation</h3>
+                        <select
+                            value={testSamples.length ? evaluationSet : "train"}
+                            onChange={(e) => setEvaluationSet(e.target.value as "train" | "test")}
+                            className={`p-1 border rounded text-sm ${theme === "dark"
+                                ? "bg-gray-700 border-gray-600 text-white"
+                                : "bg-white border-gray-300"
+                                }`}
+                        >
+                            <option value="train">Training points ({samples.length})</option>
+                            <option value="test" disabled={!testSamples.length}>Test points ({testSamples.length})</option>
+                        </select>
+                    </div>
+                    <MetricsPanel
+                        actual={evaluation.actual}
+                        predicted={evaluation.predicted}
+                        probs={evaluation.probs}
+                        classCount={classCount}
+                        labels={CLASS_LABELS}
+                        colors={CLASS_COLORS}
+                        threshold={threshold}
+                        onThresholdChange={setThreshold}
+                        positiveClass={classCount === 2 ? 0 : positiveClass}
+                        onPositiveClassChange={setPositiveClass}
+                        theme={theme}
+                    />
+                </div>
+
                 {/* HOW IT WORKS */}
                 <div className={`border rounded-lg p-5 shadow-sm ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"
                     }`}>
@@ -658,8 +1964,9 @@ export default function DecisionBoundariesPage() {
                     <ol className="list-decimal list-inside text-sm space-y-1">
                         <li>This visualizer shows how different algorithms partition the 2D feature space.</li>
                         <li>Each algorithm learns from the data points to create a classification model.</li>
-                        <li>The background color (blue/green) represents the "decision region" for that class.</li>
-                        <li>The decision boundary is the line or curve where the classification changes from Class A to Class B.</li>
+                        <li>The background color represents the "decision region" for each class, using the same color as its points.</li>
+                        <li>The decision boundary is the line or curve where the predicted class changes from one class to another.</li>
+                        <li>Most models also say how sure they are. The gradient fades toward mixed colors where the class probabilities are close, and the contours mark where a class's probability reaches 10%, 50% and 90%.</li>
                     </ol>
                 </div>
 
@@ -679,6 +1986,7 @@ export default function DecisionBoundariesPage() {
                                     <th className="py-2 px-3">X</th>
                                     <th className="py-2 px-3">Y</th>
                                     <th className="py-2 px-3">Class</th>
+                                    <th className="py-2 px-3">Set</th>
                                 </tr>
                             </thead>
                             <tbody>
@@ -689,7 +1997,14 @@ export default function DecisionBoundariesPage() {
                                         }`}>
                                         <td className="py-2 px-3">{p.x}</td>
                                         <td className="py-2 px-3">{p.y}</td>
-                                        <td className="py-2 px-3">{p.label}</td>
+                                        <td className="py-2 px-3">
+                                            <span
+                                                className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                                                style={{ backgroundColor: CLASS_COLORS[classIndex(p.label)] }}
+                                            />
+                                            {p.label}
+                                        </td>
+                                        <td className="py-2 px-3">{p.test ? "Test" : "Train"}</td>
                                     </tr>
                                 ))}
                             </tbody>
@@ -721,15 +2036,18 @@ export default function DecisionBoundariesPage() {
                             <p>The algorithm identifies the 'k' data points from the training set that are closest to the new point.</p>
 
                             <h5 className="font-bold mt-3">Majority Voting</h5>
-                            <p>The new point is assigned to the class that is most common among its 'k' nearest neighbors.</p>
+                            <p>The new point is assigned to the class that is most common among its 'k' nearest neighbors. With several classes two or more can tie for the most votes; the tie goes to whichever tied class owns the single nearest neighbor.</p>
 
                             <h5 className="font-bold mt-3">Decision Boundary</h5>
                             <p>The boundary in KNN is created by the points where the majority vote changes. It's often complex and irregular, adapting to the local data distribution.</p>
+
+                            <h5 className="font-bold mt-3">Vote Fractions</h5>
+                            <p>The share of the k votes each class receives acts as its probability, so with k = 5 a point can only be 0%, 20%, 40%, ... sure. This is why KNN shading comes in steps.</p>
                         </div>
 
                         {/* SVM EXPLANATION */}
                         <div>
-                            <h4 className="font-bold">Support Vector Machine (Linear)</h4>
+                            <h4 className="font-bold">Support Vector Machine</h4>
                             <p>
                                 A linear SVM tries to find the optimal "hyperplane" (a line in 2D) that best separates the two classes with the maximum possible margin.
                             </p>
@@ -759,6 +2077,75 @@ IF f(x) < 0, classify as Class B`}
                             <FormulaBox>
                                 {`f(x) = w₁x₁ + w₂x₂ + b = 0`}
                             </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Kernel Trick</h5>
+                            <p>Training only ever needs dot products between points, so replacing them with a kernel K fits a linear boundary in a richer feature space without computing it. Only the support vectors (circled) have αᵢ &gt; 0.</p>
+                            <FormulaBox>
+                                {`f(x) = Σ αᵢ yᵢ K(xᵢ, x) + b
+
+Linear:      K(a, b) = aᵀb
+Polynomial:  K(a, b) = (γ aᵀb + 1)ᵈ
+RBF:         K(a, b) = exp(−γ ‖a − b‖²)
+Sigmoid:     K(a, b) = tanh(γ aᵀb + 1)`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Scores, Not Probabilities</h5>
+                            <p>An SVM only outputs a signed distance f(x). The shading squashes it with σ(f), so points on the margin (f = ±1) show about 73%. Unlike logistic regression, these numbers are not calibrated probabilities.</p>
+
+                            <h5 className="font-bold mt-3">More Than Two Classes</h5>
+                            <p>An SVM only separates two classes, so several are combined. One-vs-Rest trains one machine per class against all others and picks the largest decision value. One-vs-One trains a machine for every pair of classes and lets them vote, breaking ties by the summed |f(x)|.</p>
+                            <FormulaBox>
+                                {`One-vs-Rest: ŷ = argmaxₖ fₖ(x)              (K machines)
+One-vs-One:  ŷ = most votes over all pairs    (K(K−1)/2 machines)`}
+                            </FormulaBox>
+                        </div>
+
+                        {/* DECISION TREE EXPLANATION */}
+                        <div>
+                            <h4 className="font-bold">Decision Trees &amp; Random Forests</h4>
+                            <p>
+                                A decision tree asks a sequence of yes/no questions such as "is x ≤ 3.2?". Every question splits one rectangle in two, so the regions are always axis-aligned rectangles, one per leaf.
+                            </p>
+
+                            <h5 className="font-bold mt-3">Choosing a Split (CART)</h5>
+                            <p>At each node every threshold between neighbouring points is tried on both features, and the split whose children are purest on average is kept. Purity is measured with Gini impurity or entropy, where pₖ is the share of class k in the node:</p>
+                            <FormulaBox>
+                                {`Gini    = 1 − Σ pₖ²
+Entropy = − Σ pₖ log₂ pₖ
+Split score = (nₗ · I(left) + nᵣ · I(right)) / n`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Stopping</h5>
+                            <p>Growth stops when a node is pure, reaches the maximum depth, or holds fewer samples than the minimum needed to split. A leaf predicts its most common class. Hover over a node in the diagram to see the region it covers.</p>
+
+                            <h5 className="font-bold mt-3">Random Forest</h5>
+                            <p>A forest trains many trees, each on a bootstrap resample of the points and considering one random feature at each split. Averaging their per-class probabilities smooths the blocky boundary of a single tree; the shading shows how strongly the trees agree.</p>
+                            <FormulaBox>
+                                {`P(class k) = (1/T) Σₜ Pₜ(class k)`}
+                            </FormulaBox>
+                        </div>
+
+                        {/* GAUSSIAN CLASSIFIERS EXPLANATION */}
+                        <div>
+                            <h4 className="font-bold">Naive Bayes, LDA &amp; QDA</h4>
+                            <p>
+                                These generative models describe how each class produces points: a 2D Gaussian with mean μₖ and covariance Σₖ, plus a prior πₖ equal to the class's share of the data. A new point goes to the class with the largest posterior.
+                            </p>
+                            <FormulaBox>
+                                {`P(class k | x) ∝ πₖ · N(x | μₖ, Σₖ)
+log N(x | μ, Σ) = −½ (x − μ)ᵀ Σ⁻¹ (x − μ) − ½ log|Σ| − log 2π`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Covariance Assumptions</h5>
+                            <p>The three models differ only in how Σₖ is estimated, which is visible in the ellipses:</p>
+                            <FormulaBox>
+                                {`Naive Bayes: Σₖ diagonal (features independent, axis-aligned ellipses)
+LDA:         Σₖ = Σ shared by all classes (identical ellipses)
+QDA:         Σₖ estimated separately per class`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Why LDA Is Linear and QDA Is Curved</h5>
+                            <p>The boundary between two classes is where their log-posteriors are equal. With a shared Σ the quadratic terms xᵀΣ⁻¹x cancel and a straight line remains. With different Σₖ they do not cancel, so QDA (and naive Bayes with different variances) draws conics such as ellipses and parabolas.</p>
                         </div>
 
                         {/* LOGISTIC REGRESSION EXPLANATION */}
@@ -773,6 +2160,7 @@ IF f(x) < 0, classify as Class B`}
                             <FormulaBox>
                                 {`φ(x) = [1, x₁, x₂, x₁², x₁x₂, x₂²]`}
                             </FormulaBox>
+                            <p>Degree d adds every product x₁ⁱx₂ʲ with i + j ≤ d. Custom maps pick features by hand: a radial distance r from the data centre separates concentric rings with a single weight, and the product x₁x₂ separates XOR-shaped data.</p>
 
                             <h5 className="font-bold mt-3">Linear Combination (z)</h5>
                             <p>A linear combination is computed in this new feature space using weights (w).</p>
@@ -794,7 +2182,44 @@ IF p(z) < 0.5, classify as Class B`}
                             </FormulaBox>
 
                             <h5 className="font-bold mt-3">Boundary Characteristics</h5>
-                            <p>The boundary occurs where p(z) = 0.5, which happens when z = 0. This creates a quadratic shape (like a circle, ellipse, or parabola).</p>
+                            <p>The boundary occurs where p(z) = 0.5, which happens when z = 0. For degree 2 this creates a quadratic shape (like a circle, ellipse, or parabola); higher degrees allow more wiggles.</p>
+
+                            <h5 className="font-bold mt-3">Regularization</h5>
+                            <p>High-degree feature maps can bend the boundary around every point. A penalty on the weight sizes (not the bias) keeps it smoother. L2 shrinks all weights towards zero, while L1 sets many of them to exactly zero and so selects a few useful features.</p>
+                            <FormulaBox>
+                                {`L1: minimise  log-loss + λ Σⱼ |wⱼ|
+L2: minimise  log-loss + (λ/2) Σⱼ wⱼ²`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Softmax for More Classes</h5>
+                            <p>With more than two classes each class k gets its own weight vector and score zₖ. The softmax turns the scores into probabilities that sum to 1, and the point goes to the most probable class.</p>
+                            <FormulaBox>
+                                {`zₖ = wₖᵀφ(x)
+P(class k) = eᶻᵏ / Σⱼ eᶻʲ`}
+                            </FormulaBox>
+                        </div>
+
+                        {/* METRICS EXPLANATION */}
+                        <div>
+                            <h4 className="font-bold">Evaluation Metrics</h4>
+                            <p>
+                                The confusion matrix counts each actual class (rows) against each predicted class (columns). Treating one class as positive gives true/false positives (TP, FP) and negatives (TN, FN):
+                            </p>
+                            <FormulaBox>
+                                {`Accuracy  = correct / total
+Precision = TP / (TP + FP)     of the points called positive, how many are
+Recall    = TP / (TP + FN)     of the positive points, how many were found
+F1        = 2 · Precision · Recall / (Precision + Recall)`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Thresholds, ROC and PR Curves</h5>
+                            <p>Predicting Class A whenever P(A) ≥ t trades precision against recall as t moves. The ROC curve plots the true positive rate against the false positive rate for every possible t, and the PR curve plots precision against recall. An area under the ROC curve (AUC) of 1 means some threshold separates the classes perfectly, while 0.5 is no better than chance.</p>
+                            <FormulaBox>
+                                {`TPR = TP / (TP + FN)      FPR = FP / (FP + TN)`}
+                            </FormulaBox>
+
+                            <h5 className="font-bold mt-3">Train/Test Split &amp; Overfitting</h5>
+                            <p>Accuracy on the points a model was fitted to is optimistic: a flexible enough boundary can wrap around every training point. Held-out test points (diamonds) are never used for fitting, so their accuracy estimates performance on new data. The complexity sweep shows the bias-variance trade-off: too simple a model misses the pattern on both sets, too complex a model memorises noise and its test accuracy drops.</p>
                         </div>
                     </div>
                 </div>
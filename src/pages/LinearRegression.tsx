@@ -1,56 +1,131 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import AnimationTimeline from "../components/regression/AnimationTimeline";
+import BinaryRegression from "../components/regression/BinaryRegression";
+import DatasetGenerator from "../components/regression/DatasetGenerator";
+import DiagnosticsPanel from "../components/regression/DiagnosticsPanel";
+import Histogram from "../components/regression/Histogram";
+import InferencePanel from "../components/regression/InferencePanel";
+import LossSurface from "../components/regression/LossSurface";
+import MultipleRegression from "../components/regression/MultipleRegression";
+import RegularizationPath from "../components/regression/RegularizationPath";
 import { useTheme } from "../context/ThemeContext";
-
-type Point = { x: number; y: number; temp?: boolean };
+import {
+    bandHalfWidth,
+    bootstrapFits,
+    basisNames,
+    basisRow,
+    calcRegression,
+    crossValidate,
+    epochBatches,
+    fitBasis,
+    fitRobust,
+    generateDataset,
+    linearInference,
+    logisticStep,
+    logLoss,
+    lossValue,
+    mseGradient,
+    percentile,
+    predictBasis,
+    regularizationPath,
+    residualDiagnostics,
+    sumSquaredError,
+    trueCurve,
+    type BasisKind,
+    type DatasetOptions,
+    type GradientMode,
+    type LogisticParams,
+    type LogisticSolver,
+    type Penalty,
+    type Point,
+    type Regularization,
+    type RobustLoss,
+} from "../utils/regression";
+import { sigmoid } from "../utils/math";
+import { createRng, randomSeed } from "../utils/random";
 
 const PADDING = 48;
 const POINT_RADIUS = 5;
 
-function calcRegression(points: Point[]) {
-    const n = points.length;
-    if (n === 0) return { m: 0, b: 0, error: 0 };
-    const sumX = points.reduce((s, p) => s + p.x, 0);
-    const sumY = points.reduce((s, p) => s + p.y, 0);
-    const sumXY = points.reduce((s, p) => s + p.x * p.y, 0);
-    const sumX2 = points.reduce((s, p) => s + p.x * p.x, 0);
-    const denom = n * sumX2 - sumX * sumX;
-    const m = denom === 0 ? 0 : (n * sumXY - sumX * sumY) / denom;
-    const b = (sumY - m * sumX) / n;
-    const error = points.reduce((e, p) => {
-        const pred = m * p.x + b;
-        return e + (p.y - pred) ** 2;
-    }, 0);
-    return { m, b, error };
-}
+const HANDLE_SIZE = 7;
+
+const FOLD_COLORS = ["#2563eb", "#10b981", "#f59e0b", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316", "#6366f1", "#84cc16", "#ef4444"];
+const LONG_PRESS_MS = 550;
 
-// function generateRandomPoints(count: number = 10): Point[] {
-//     const points: Point[] = [];
+// Binary-target mode: y axis range, logistic iteration cap and class colours
+const BINARY_Y_MIN = -0.25;
+const BINARY_Y_MAX = 1.25;
+const LOGISTIC_MAX_ITERATIONS = 500;
+const CLASS_ZERO_COLOR = "#a855f7";
 
-//     const slope = (Math.random() * 2 - 1) * 0.9; // -0.9 → +0.9
-//     const intercept = 2 + Math.random() * 5;     // 2–7
-//     const noise = 1 + Math.random() * 1.5;        // 1–2.5
+const LOG_LAMBDA_MIN = -4;
+const LOG_LAMBDA_MAX = 2;
+const LOG_LAMBDA_GRID = Array.from({ length: 61 }, (_, i) => LOG_LAMBDA_MIN + (i / 60) * (LOG_LAMBDA_MAX - LOG_LAMBDA_MIN));
 
-//     for (let i = 0; i < count; i++) {
-//         const x = 0.5 + (i / (count - 1)) * 5.5;
-//         let y = intercept + slope * x + (Math.random() - 0.5) * noise;
-//         y = Math.max(0.5, Math.min(9.5, y)); // fully inside 0–10
-//         points.push({ x, y });
-//     }
+const LOSS_LABELS: Record<RobustLoss, string> = {
+    mse: "Squared (MSE)",
+    mae: "Absolute (MAE)",
+    huber: "Huber",
+    quantile: "Quantile",
+};
+
+// Data x-positions of the two drag handles drawn on the regression line
+function lineHandleXs(xmin: number, xmax: number) {
+    return [xmin + 0.25 * (xmax - xmin), xmin + 0.75 * (xmax - xmin)];
+}
+
+// Labels points above the mean y as 1 and the rest as 0; already-binary points are kept
+function binarize(points: Point[]): Point[] {
+    if (points.every((p) => p.y === 0 || p.y === 1)) return points;
+    const mean = points.reduce((s, p) => s + p.y, 0) / points.length;
+    return points.map((p) => ({ ...p, y: p.y > mean ? 1 : 0 }));
+}
+
+// Pause in milliseconds between animation frames for the speed slider (1–100)
+function frameDelay(speed: number) {
+    if (speed <= 1) return 5000;
+    if (speed <= 20) return 4000;
+    if (speed <= 25) return 3000;
+    if (speed <= 50) return 2000;
+    if (speed <= 60) return 1500;
+    if (speed <= 75) return 1000;
+    if (speed <= 90) return 800;
+    return 500;
+}
 
-//     return points.sort((a, b) => a.x - b.x);
-// }
+const BASIS_LABELS: Record<BasisKind, string> = {
+    polynomial: "Polynomial",
+    rbf: "Gaussian RBF",
+    fourier: "Sine/Cosine",
+};
+
+const DEFAULT_DATASET: DatasetOptions = {
+    count: 10,
+    slope: 0.6,
+    intercept: 2,
+    shape: "linear",
+    curvature: 1,
+    noise: "gaussian",
+    noiseScale: 1,
+    heteroscedasticity: 0,
+    seed: 42,
+};
 
 export default function LinearRegression() {
     const { theme } = useTheme();
-    const [points, setPoints] = useState<Point[]>([
-        { x: 1, y: 3 },
-        { x: 2, y: 5 },
-        { x: 3, y: 4 },
-        { x: 4, y: 7 },
-        { x: 5, y: 8 },
-    ]);
+    const [targetMode, setTargetMode] = useState<"continuous" | "binary">("continuous");
+    const isBinary = targetMode === "binary";
+    const [points, setPoints] = useState<Point[]>(() => generateDataset(DEFAULT_DATASET, createRng(DEFAULT_DATASET.seed)));
+    // Settings the current points were generated from, if they still apply
+    const [datasetOptions, setDatasetOptions] = useState<DatasetOptions | null>(DEFAULT_DATASET);
+    const [showTruth, setShowTruth] = useState(false);
+    const truthCurve = useMemo(() => (datasetOptions ? trueCurve(datasetOptions) : null), [datasetOptions]);
 
     const { m: targetM, b: targetB, error: totalError } = calcRegression(points);
+    const inference = useMemo(
+        () => linearInference(points.filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y))),
+        [points]
+    );
 
     const [currentM, setCurrentM] = useState<number>(targetM);
     const [currentB, setCurrentB] = useState<number>(targetB);
@@ -58,22 +133,140 @@ export default function LinearRegression() {
     const [manualM, setManualM] = useState<number | null>(null);
     const [manualB, setManualB] = useState<number | null>(null);
 
-    const [isAnimatingLine, setIsAnimatingLine] = useState(false);
     const [isAnimating, setIsAnimating] = useState(false);
     const [isAddingPoint, setIsAddingPoint] = useState(false);
     const [animSpeed, setAnimSpeed] = useState(40);
     const [showResiduals, setShowResiduals] = useState(true);
+    const [showBands, setShowBands] = useState(false);
 
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
-    const [hoverIdx] = useState<number | null>(null);
+    const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+    const [dragDomain, setDragDomain] = useState<{ xmin: number; xmax: number; ymin: number; ymax: number } | null>(null);
+    const dragRef = useRef<
+        { kind: "point"; index: number } | { kind: "handle"; anchor: { x: number; y: number } } | null
+    >(null);
+    const pressRef = useRef<{ px: number; py: number; moved: boolean; timer?: ReturnType<typeof setTimeout> } | null>(null);
 
     const [animationPoints, setAnimationPoints] = useState<Point[]>([]);
     const [currentAnimationStep, setCurrentAnimationStep] = useState(0);
+    const [timeline, setTimeline] = useState<{ m: number; b: number; error: number }[]>([]);
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    const [trainingMode, setTrainingMode] = useState<"closed-form" | "gradient-descent">("closed-form");
+    const [gdMode, setGdMode] = useState<GradientMode>("batch");
+    const [learningRate, setLearningRate] = useState(0.01);
+    const [batchSize, setBatchSize] = useState(2);
+    const [maxEpochs, setMaxEpochs] = useState(200);
+    const [isTraining, setIsTraining] = useState(false);
+    const [gdEpoch, setGdEpoch] = useState(0);
+    const [gdStep, setGdStep] = useState(0);
+    const [gdStatus, setGdStatus] = useState<"converged" | "diverged" | "max-epochs" | null>(null);
+    const [gdPath, setGdPath] = useState<{ m: number; b: number; error: number }[]>([]);
+    const batchQueueRef = useRef<number[][]>([]);
+
+    const [basisKind, setBasisKind] = useState<BasisKind>("polynomial");
+    const [degree, setDegree] = useState(1);
+    const [penalty, setPenalty] = useState<Penalty>("none");
+    const [logLambda, setLogLambda] = useState(-1);
+    const [l1Ratio, setL1Ratio] = useState(0.5);
+
+    const [robustLoss, setRobustLoss] = useState<RobustLoss>("mse");
+    const [huberDelta, setHuberDelta] = useState(1);
+    const [quantileTau, setQuantileTau] = useState(0.5);
+
+    const lossOptions = useMemo(
+        () => ({ loss: robustLoss, delta: huberDelta, tau: quantileTau }),
+        [robustLoss, huberDelta, quantileTau]
+    );
+
+    const regularization = useMemo<Regularization>(
+        () => ({ penalty, lambda: 10 ** logLambda, l1Ratio }),
+        [penalty, logLambda, l1Ratio]
+    );
+
+    // The plain unpenalised line keeps its closed-form, animated and
+    // gradient-descent paths; every other model is solved by `fitBasis`.
+    const isBasisModel = trainingMode === "closed-form"
+        && (basisKind !== "polynomial" || degree > 1 || penalty !== "none" || robustLoss !== "mse");
+    const basisFit = useMemo(() => {
+        if (!isBasisModel || !points.length) return null;
+        return robustLoss === "mse"
+            ? fitBasis(points, basisKind, degree, regularization)
+            : fitRobust(points, basisKind, degree, lossOptions);
+    }, [isBasisModel, points, basisKind, degree, regularization, robustLoss, lossOptions]);
+    // Least-squares fit on the same basis, overlaid to contrast with a robust loss
+    const olsFit = useMemo(
+        () => (isBasisModel && robustLoss !== "mse" && points.length ? fitBasis(points, basisKind, degree) : null),
+        [isBasisModel, robustLoss, points, basisKind, degree]
+    );
+    const regPath = useMemo(
+        () => (isBasisModel && penalty !== "none" && points.length
+            ? regularizationPath(points, basisKind, degree, { penalty, lambda: 1, l1Ratio }, LOG_LAMBDA_GRID)
+            : []),
+        [isBasisModel, points, basisKind, degree, penalty, l1Ratio]
+    );
+
+    // 1D logistic regression fitted to the same points in binary-target mode
+    const [logSolver, setLogSolver] = useState<LogisticSolver>("newton");
+    const [logLearningRate, setLogLearningRate] = useState(0.1);
+    const [logParams, setLogParams] = useState<LogisticParams>({ w0: 0, w1: 0 });
+    const [logIteration, setLogIteration] = useState(0);
+    const [logRunning, setLogRunning] = useState(false);
+    const [logStatus, setLogStatus] = useState<"converged" | "max-iterations" | null>(null);
+    const logisticLoss = useMemo(() => logLoss(points, logParams), [points, logParams]);
+
+    const resetLogistic = useCallback(() => {
+        setLogRunning(false);
+        setLogParams({ w0: 0, w1: 0 });
+        setLogIteration(0);
+        setLogStatus(null);
+    }, []);
+
+    // Editing the data restarts the fit from zero weights
+    useEffect(() => {
+        resetLogistic();
+    }, [points, resetLogistic]);
+
+    // Returns false once the fit has converged or hit the iteration cap
+    const logisticStepOnce = useCallback(() => {
+        if (!points.length) return false;
+        if (logIteration >= LOGISTIC_MAX_ITERATIONS) {
+            setLogStatus("max-iterations");
+            return false;
+        }
+        const next = logisticStep(points, logParams, logSolver, logLearningRate);
+        setLogParams(next);
+        setLogIteration((i) => i + 1);
+        if (Math.hypot(next.w0 - logParams.w0, next.w1 - logParams.w1) < 1e-6) {
+            setLogStatus("converged");
+            return false;
+        }
+        return true;
+    }, [points, logParams, logSolver, logLearningRate, logIteration]);
+
+    useEffect(() => {
+        if (!logRunning) return;
+        const timer = setTimeout(() => {
+            if (!logisticStepOnce()) setLogRunning(false);
+        }, logSolver === "newton" ? 250 : 20);
+        return () => clearTimeout(timer);
+    }, [logRunning, logisticStepOnce, logSolver]);
+
+    const manualPosition = useMemo(
+        () => (manualM !== null || manualB !== null ? { m: manualM ?? currentM, b: manualB ?? currentB } : null),
+        [manualM, manualB, currentM, currentB]
+    );
 
     const getDomain = useCallback(() => {
+        // Hold the axes still while something is being dragged
+        if (dragDomain) return dragDomain;
 
         const currentPoints = points;
-        if (currentPoints.length === 0) return { xmin: 0, xmax: 10, ymin: 0, ymax: 10 };
+        if (currentPoints.length === 0) {
+            return isBinary
+                ? { xmin: 0, xmax: 10, ymin: BINARY_Y_MIN, ymax: BINARY_Y_MAX }
+                : { xmin: 0, xmax: 10, ymin: 0, ymax: 10 };
+        }
 
         const xs = currentPoints.map((p) => p.x);
         const ys = currentPoints.map((p) => p.y);
@@ -92,10 +285,13 @@ export default function LinearRegression() {
         if (Math.abs(xmax - xmin) < 1e-6) xmax = xmin + 5;
         if (Math.abs(ymax - ymin) < 1e-6) ymax = ymin + 5;
 
+        // Labels are 0 or 1, so the y axis only needs to frame that band
+        if (isBinary) return { xmin, xmax, ymin: BINARY_Y_MIN, ymax: BINARY_Y_MAX };
+
         return { xmin, xmax, ymin, ymax };
 
 
-    }, [points, isAnimatingLine, isAnimating]);
+    }, [points, isAnimating, dragDomain, isBinary]);
 
     function dataToPixel(x: number, y: number, width: number, height: number) {
         const { xmin, xmax, ymin, ymax } = getDomain();
@@ -110,17 +306,85 @@ export default function LinearRegression() {
         const y = ymin + ((height - PADDING - py) / (height - 2 * PADDING)) * (ymax - ymin);
         return { x, y };
     }
+    const predict = useCallback(
+        (x: number) => (basisFit ? predictBasis(basisFit, x) : currentM * x + currentB),
+        [basisFit, currentM, currentB]
+    );
+
+    // Both models classify a point as 1 where their prediction reaches 0.5
+    const binaryAccuracy = useMemo(() => {
+        const share = (model: (x: number) => number) =>
+            points.length ? points.filter((p) => (model(p.x) >= 0.5 ? 1 : 0) === p.y).length / points.length : 0;
+        return {
+            linear: share(predict),
+            logistic: share((x) => sigmoid(logParams.w0 + logParams.w1 * x)),
+        };
+    }, [points, predict, logParams]);
+
+    const [resampleMode, setResampleMode] = useState<"off" | "bootstrap" | "cv">("off");
+    const [bootstrapCount, setBootstrapCount] = useState(100);
+    const [cvFolds, setCvFolds] = useState(5);
+    const [resampleSeed, setResampleSeed] = useState(randomSeed);
+
+    const bootstrap = useMemo(
+        () => (resampleMode === "bootstrap" ? bootstrapFits(points, bootstrapCount, createRng(resampleSeed)) : []),
+        [resampleMode, points, bootstrapCount, resampleSeed]
+    );
+    const bootstrapSummary = useMemo(() => {
+        const ms = bootstrap.map((f) => f.m);
+        const bs = bootstrap.map((f) => f.b);
+        return {
+            ms,
+            bs,
+            mCi: [percentile(ms, 0.025), percentile(ms, 0.975)],
+            bCi: [percentile(bs, 0.025), percentile(bs, 0.975)],
+            mMarkers: [
+                { value: targetM, color: "#ef4444" },
+                { value: percentile(ms, 0.025), color: "#6b7280", dashed: true },
+                { value: percentile(ms, 0.975), color: "#6b7280", dashed: true },
+            ],
+            bMarkers: [
+                { value: targetB, color: "#ef4444" },
+                { value: percentile(bs, 0.025), color: "#6b7280", dashed: true },
+                { value: percentile(bs, 0.975), color: "#6b7280", dashed: true },
+            ],
+        };
+    }, [bootstrap, targetM, targetB]);
+
+    // Cross-validation refits whichever model is active on each training split
+    const crossValidation = useMemo(() => {
+        if (resampleMode !== "cv" || points.length < cvFolds) return null;
+        const fitter = (train: Point[]) => {
+            if (basisFit) {
+                const f = robustLoss === "mse"
+                    ? fitBasis(train, basisKind, degree, regularization)
+                    : fitRobust(train, basisKind, degree, lossOptions);
+                return (x: number) => predictBasis(f, x);
+            }
+            const { m, b } = calcRegression(train);
+            return (x: number) => m * x + b;
+        };
+        return crossValidate(points, cvFolds, fitter, createRng(resampleSeed));
+    }, [resampleMode, points, cvFolds, resampleSeed, basisFit, robustLoss, basisKind, degree, regularization, lossOptions]);
+
+    const diagnostics = useMemo(
+        () => residualDiagnostics(
+            points,
+            points.map((p) => (basisFit ? basisRow(basisFit.spec, p.x) : [1, p.x])),
+            predict
+        ),
+        [points, basisFit, predict]
+    );
+
     const calcCurrentError = useCallback(
         (m?: number, b?: number) => {
             if (!points.length) return 0;
+            if (basisFit && m === undefined && b === undefined) return basisFit.error;
             const mm = m ?? currentM;
             const bb = b ?? currentB;
-            return points.reduce((sum, p) => {
-                const pred = mm * p.x + bb;
-                return sum + (p.y - pred) ** 2;
-            }, 0);
+            return sumSquaredError(points, mm, bb);
         },
-        [points, currentM, currentB]
+        [points, currentM, currentB, basisFit]
     );
 
 
@@ -218,11 +482,11 @@ export default function LinearRegression() {
                 }
             });
         } else {
-            if (showResiduals || isAnimatingLine) {
+            if (showResiduals || isAnimating) {
                 const { ymin, ymax } = getDomain();
 
                 points.forEach((p) => {
-                    let predictedY = currentM * p.x + currentB;
+                    let predictedY = predict(p.x);
 
 
                     predictedY = Math.max(ymin, Math.min(ymax, predictedY));
@@ -301,31 +565,175 @@ export default function LinearRegression() {
                 ];
             };
 
-            const endpoints = getLineEndpoints();
-            const { px: lpx, py: lpy } = dataToPixel(endpoints[0].x, endpoints[0].y, width, height);
-            const { px: rpx, py: rpy } = dataToPixel(endpoints[1].x, endpoints[1].y, width, height);
+            if (inference && showBands && !basisFit) {
+                const bands: [boolean, string][] = [
+                    [true, theme === "dark" ? "rgba(168,85,247,0.12)" : "rgba(168,85,247,0.10)"],
+                    [false, theme === "dark" ? "rgba(239,68,68,0.22)" : "rgba(239,68,68,0.18)"],
+                ];
+                ctx.save();
+                ctx.beginPath();
+                ctx.rect(PADDING, PADDING, width - 2 * PADDING, height - 2 * PADDING);
+                ctx.clip();
+                for (const [prediction, color] of bands) {
+                    const samples = 80;
+                    const xs = Array.from({ length: samples + 1 }, (_, i) => domainXmin + (i / samples) * (domainXmax - domainXmin));
+                    ctx.beginPath();
+                    xs.forEach((x, i) => {
+                        const y = inference.m * x + inference.b + bandHalfWidth(inference, x, prediction);
+                        const { px, py } = dataToPixel(x, y, width, height);
+                        if (i === 0) ctx.moveTo(px, py);
+                        else ctx.lineTo(px, py);
+                    });
+                    [...xs].reverse().forEach((x) => {
+                        const y = inference.m * x + inference.b - bandHalfWidth(inference, x, prediction);
+                        const { px, py } = dataToPixel(x, y, width, height);
+                        ctx.lineTo(px, py);
+                    });
+                    ctx.closePath();
+                    ctx.fillStyle = color;
+                    ctx.fill();
+                }
+                ctx.restore();
+            }
 
-            ctx.beginPath();
-            ctx.strokeStyle = theme === "dark" ? "#ef4444" : "red";
-            ctx.lineWidth = 2.5;
-            ctx.moveTo(lpx, lpy);
-            ctx.lineTo(rpx, rpy);
-            ctx.stroke();
+            const drawCurve = (f: (x: number) => number, color: string, lineWidth: number, dash: number[] = []) => {
+                ctx.save();
+                ctx.beginPath();
+                ctx.rect(PADDING, PADDING, width - 2 * PADDING, height - 2 * PADDING);
+                ctx.clip();
+                ctx.beginPath();
+                ctx.strokeStyle = color;
+                ctx.lineWidth = lineWidth;
+                ctx.setLineDash(dash);
+                const samples = 240;
+                for (let i = 0; i <= samples; i++) {
+                    const x = domainXmin + (i / samples) * (domainXmax - domainXmin);
+                    const { px, py } = dataToPixel(x, f(x), width, height);
+                    if (i === 0) ctx.moveTo(px, py);
+                    else ctx.lineTo(px, py);
+                }
+                ctx.stroke();
+                ctx.restore();
+            };
+
+            if (bootstrap.length) {
+                const fanColor = theme === "dark" ? "rgba(248,113,113,0.12)" : "rgba(239,68,68,0.10)";
+                bootstrap.forEach(({ m, b }) => drawCurve((x) => m * x + b, fanColor, 1.5));
+            }
+
+            if (crossValidation) {
+                crossValidation.results.forEach((r, f) => {
+                    drawCurve(r.predict, FOLD_COLORS[f % FOLD_COLORS.length], 1.5, [4, 4]);
+                });
+            }
+
+            if (showTruth && truthCurve) {
+                drawCurve(truthCurve, theme === "dark" ? "#c084fc" : "#9333ea", 2, [2, 4]);
+            }
+
+            if (olsFit) {
+                drawCurve((x) => predictBasis(olsFit, x), theme === "dark" ? "#9ca3af" : "#6b7280", 1.5, [8, 5]);
+            }
+
+            if (basisFit) {
+                drawCurve(predict, theme === "dark" ? "#ef4444" : "red", 2.5);
+            } else {
+                const endpoints = getLineEndpoints();
+                const { px: lpx, py: lpy } = dataToPixel(endpoints[0].x, endpoints[0].y, width, height);
+                const { px: rpx, py: rpy } = dataToPixel(endpoints[1].x, endpoints[1].y, width, height);
+
+                ctx.beginPath();
+                ctx.strokeStyle = theme === "dark" ? "#ef4444" : "red";
+                ctx.lineWidth = 2.5;
+                ctx.moveTo(lpx, lpy);
+                ctx.lineTo(rpx, rpy);
+                ctx.stroke();
+
+                if (!isTraining) {
+                    lineHandleXs(domainXmin, domainXmax).forEach((hx) => {
+                        const { px, py } = dataToPixel(hx, currentM * hx + currentB, width, height);
+                        if (py < PADDING || py > height - PADDING) return;
+                        ctx.fillStyle = theme === "dark" ? "#1f2937" : "#fff";
+                        ctx.strokeStyle = theme === "dark" ? "#ef4444" : "red";
+                        ctx.lineWidth = 2;
+                        ctx.fillRect(px - HANDLE_SIZE / 2 - 1, py - HANDLE_SIZE / 2 - 1, HANDLE_SIZE + 2, HANDLE_SIZE + 2);
+                        ctx.strokeRect(px - HANDLE_SIZE / 2 - 1, py - HANDLE_SIZE / 2 - 1, HANDLE_SIZE + 2, HANDLE_SIZE + 2);
+                    });
+                }
+            }
 
+            if (isBinary) {
+                // Logistic fit on the same points: sigmoid, the 0.5 threshold and the x where they cross
+                const { py: thresholdY } = dataToPixel(domainXmin, 0.5, width, height);
+                ctx.strokeStyle = theme === "dark" ? "#9ca3af" : "#6b7280";
+                ctx.lineWidth = 1;
+                ctx.setLineDash([4, 4]);
+                ctx.beginPath();
+                ctx.moveTo(PADDING, thresholdY);
+                ctx.lineTo(width - PADDING, thresholdY);
+                ctx.stroke();
+                ctx.setLineDash([]);
+
+                const logisticColor = theme === "dark" ? "#60a5fa" : "#2563eb";
+                drawCurve((x) => sigmoid(logParams.w0 + logParams.w1 * x), logisticColor, 2.5);
+                if (Math.abs(logParams.w1) > 1e-9) {
+                    const boundaryX = -logParams.w0 / logParams.w1;
+                    if (boundaryX >= domainXmin && boundaryX <= domainXmax) {
+                        const { px } = dataToPixel(boundaryX, 0, width, height);
+                        ctx.strokeStyle = logisticColor;
+                        ctx.lineWidth = 1;
+                        ctx.setLineDash([2, 4]);
+                        ctx.beginPath();
+                        ctx.moveTo(px, PADDING);
+                        ctx.lineTo(px, height - PADDING);
+                        ctx.stroke();
+                        ctx.setLineDash([]);
+                    }
+                }
+            }
+
+            const residualWeights = olsFit ? basisFit?.residualWeights : undefined;
             points.forEach((p, i) => {
                 const { px, py } = dataToPixel(p.x, p.y, width, height);
+                const weight = residualWeights?.[i];
                 ctx.beginPath();
                 ctx.fillStyle = i === hoverIdx
                     ? (theme === "dark" ? "#f59e0b" : "#ff8c00")
-                    : (theme === "dark" ? "#3b82f6" : "#2563eb");
+                    : crossValidation
+                        ? FOLD_COLORS[crossValidation.fold[i] % FOLD_COLORS.length]
+                        : isBinary && p.y === 0
+                            ? CLASS_ZERO_COLOR
+                            : (theme === "dark" ? "#3b82f6" : "#2563eb");
+                ctx.globalAlpha = weight === undefined ? 1 : 0.25 + 0.75 * weight;
                 ctx.arc(px, py, POINT_RADIUS, 0, Math.PI * 2);
                 ctx.fill();
+                ctx.globalAlpha = 1;
+
+                if (diagnostics?.influential[i]) {
+                    ctx.beginPath();
+                    ctx.strokeStyle = "#f59e0b";
+                    ctx.lineWidth = 2;
+                    ctx.arc(px, py, POINT_RADIUS + 4, 0, Math.PI * 2);
+                    ctx.stroke();
+                }
+
+                if (weight !== undefined) {
+                    ctx.fillStyle = theme === "dark" ? "#d1d5db" : "#374151";
+                    ctx.font = "10px sans-serif";
+                    ctx.fillText(`w=${weight.toFixed(2)}`, px + 7, py - 7);
+                }
             });
         }
 
         ctx.fillStyle = theme === "dark" ? "#f3f4f6" : "#111827";
         ctx.font = "14px sans-serif";
-        ctx.fillText(`y = ${currentM.toFixed(4)} x + ${currentB.toFixed(4)}`, PADDING + 2, 20);
+        ctx.fillText(
+            basisFit
+                ? `${BASIS_LABELS[basisFit.spec.kind]} fit, degree ${basisFit.spec.degree} (${basisFit.weights.length} coefficients)`
+                : `y = ${currentM.toFixed(4)} x + ${currentB.toFixed(4)}`,
+            PADDING + 2,
+            20
+        );
         ctx.fillStyle = theme === "dark" ? "#9ca3af" : "#6b7280";
         ctx.font = "12px sans-serif";
         const currentError = calcCurrentError();
@@ -335,13 +743,40 @@ export default function LinearRegression() {
             38
         );
 
+        if (olsFit && basisFit) {
+            const total = points.reduce((sum, p) => sum + lossValue(p.y - predict(p.x), lossOptions), 0);
+            ctx.fillText(
+                `${LOSS_LABELS[lossOptions.loss]} loss: ${total.toFixed(4)} (dashed: least-squares fit)`,
+                PADDING + 2,
+                54
+            );
+        }
+
+        if (trainingMode === "gradient-descent") {
+            ctx.fillText(
+                `Epoch ${gdEpoch} · Step ${gdStep} · Learning rate ${learningRate.toPrecision(2)}`,
+                PADDING + 2,
+                54
+            );
+        }
+
+        if (isBinary) {
+            const headerY = 54 + ((olsFit && basisFit) || trainingMode === "gradient-descent" ? 16 : 0);
+            ctx.fillStyle = theme === "dark" ? "#60a5fa" : "#2563eb";
+            ctx.fillText(
+                `Logistic: p = σ(${logParams.w0.toFixed(3)} + ${logParams.w1.toFixed(3)} x) · Log-loss: ${logisticLoss.toFixed(4)}`,
+                PADDING + 2,
+                headerY
+            );
+        }
+
         if (hoverIdx !== null && !isAnimating) {
             const p = points[hoverIdx];
             const { px, py } = dataToPixel(p.x, p.y, width, height);
 
-            const line1 = `Regression Line: ${(currentM * p.x + currentB).toFixed(4)}`;
+            const line1 = `Regression Line: ${predict(p.x).toFixed(4)}`;
             const lines = points.map((pt, i) => {
-                const residual = pt.y - (currentM * pt.x + currentB);
+                const residual = pt.y - predict(pt.x);
                 return `Residual ${i}: ${residual.toFixed(4)}`;
             });
             const allLines = [line1, ...lines];
@@ -393,7 +828,26 @@ export default function LinearRegression() {
         isAnimating,
         animationPoints,
         currentAnimationStep,
-        calcCurrentError
+        calcCurrentError,
+        trainingMode,
+        gdEpoch,
+        gdStep,
+        learningRate,
+        basisFit,
+        predict,
+        olsFit,
+        lossOptions,
+        isTraining,
+        inference,
+        showBands,
+        diagnostics,
+        bootstrap,
+        crossValidation,
+        showTruth,
+        truthCurve,
+        isBinary,
+        logParams,
+        logisticLoss
     ]);
 
     const currentMRef = useRef(currentM);
@@ -405,135 +859,311 @@ export default function LinearRegression() {
     }, [currentM, currentB]);
 
     useEffect(() => {
-        if (!manualM && !manualB) {
+        if (trainingMode === "closed-form" && !manualM && !manualB && !isAnimating) {
             setCurrentM(targetM);
             setCurrentB(targetB);
         }
-    }, [targetM, targetB, manualM, manualB]);
+    }, [targetM, targetB, manualM, manualB, trainingMode, isAnimating]);
+
+    const gdEpochRef = useRef(0);
+    const gdStepRef = useRef(0);
+
+    const resetGradientDescent = useCallback((m: number, b: number) => {
+        setIsTraining(false);
+        batchQueueRef.current = [];
+        gdEpochRef.current = 0;
+        gdStepRef.current = 0;
+        setGdEpoch(0);
+        setGdStep(0);
+        setGdStatus(null);
+        currentMRef.current = m;
+        currentBRef.current = b;
+        setCurrentM(m);
+        setCurrentB(b);
+        setGdPath([{ m, b, error: sumSquaredError(points, m, b) }]);
+    }, [points]);
+
+    // Batch indices refer to the point list they were drawn from
+    useEffect(() => {
+        batchQueueRef.current = [];
+    }, [points]);
+
+    // Applies one gradient update on the next batch. Returns false once training should stop.
+    const gradientDescentStep = useCallback(() => {
+        const data = points.filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+        if (data.length < 2) return false;
+
+        if (batchQueueRef.current.length === 0) {
+            if (gdEpochRef.current >= maxEpochs) {
+                setGdStatus("max-epochs");
+                return false;
+            }
+            batchQueueRef.current = epochBatches(data.length, gdMode, batchSize);
+            gdEpochRef.current += 1;
+            setGdEpoch(gdEpochRef.current);
+        }
+
+        const batch = batchQueueRef.current.shift()!;
+        const m = currentMRef.current;
+        const b = currentBRef.current;
+        const { dm, db } = mseGradient(data, batch, m, b);
+        const newM = m - learningRate * dm;
+        const newB = b - learningRate * db;
+        const error = sumSquaredError(data, newM, newB);
+
+        currentMRef.current = newM;
+        currentBRef.current = newB;
+        setCurrentM(newM);
+        setCurrentB(newB);
+        gdStepRef.current += 1;
+        setGdStep(gdStepRef.current);
+        setGdPath((prev) => [...prev, { m: newM, b: newB, error }]);
+
+        if (!Number.isFinite(error) || error > 1e12) {
+            setGdStatus("diverged");
+            return false;
+        }
+
+        const full = mseGradient(data, data.map((_, i) => i), newM, newB);
+        if (Math.hypot(full.dm, full.db) < 1e-4) {
+            setGdStatus("converged");
+            return false;
+        }
+        return true;
+    }, [points, gdMode, batchSize, learningRate, maxEpochs]);
 
     useEffect(() => {
-        if (!isAnimatingLine) return;
+        if (!isTraining) return;
 
         let cancel = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const tick = () => {
+            if (cancel) return;
+            if (!gradientDescentStep()) {
+                setIsTraining(false);
+                return;
+            }
+            timer = setTimeout(tick, Math.round(1000 / animSpeed));
+        };
+
+        tick();
+
+        return () => {
+            cancel = true;
+            clearTimeout(timer);
+        };
+    }, [isTraining, animSpeed, gradientDescentStep]);
+
+    const changeTrainingMode = (mode: "closed-form" | "gradient-descent") => {
+        setTrainingMode(mode);
+        if (mode === "gradient-descent") {
+            resetGradientDescent(manualM ?? 0, manualB ?? 0);
+        } else {
+            setIsTraining(false);
+            setGdPath([]);
+            setManualM(null);
+            setManualB(null);
+        }
+    };
 
+    const startTraining = () => {
+        if (points.length < 2) {
+            alert("Add at least two points to train!");
+            return;
+        }
+        if (gdStatus !== null) {
+            resetGradientDescent(gdPath[0]?.m ?? 0, gdPath[0]?.b ?? 0);
+        }
+        setIsTraining(true);
+    };
+
+    const showFrame = useCallback((frame: number) => {
+        const state = timeline[frame];
+        if (!state) return;
+        currentMRef.current = state.m;
+        currentBRef.current = state.b;
+        setCurrentM(state.m);
+        setCurrentB(state.b);
+        setCurrentAnimationStep(frame);
+        if (frame >= timeline.length - 1) setIsPlaying(false);
+    }, [timeline]);
+
+    // Records the whole animation up front so it can be paused, stepped and scrubbed
+    const startAnimation = () => {
         const userPoints = points
-            .filter((p: any) => Number.isFinite(p.x) && Number.isFinite(p.y))
-            .map((p: any) => ({ x: p.x, y: p.y }));
+            .filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y))
+            .map((p) => ({ x: p.x, y: p.y }));
 
         if (userPoints.length < 2) {
-            setIsAnimatingLine(false);
             alert("Add at least two points to animate regression!");
             return;
         }
 
-       
         const { m: finalM, b: finalB } = calcRegression(userPoints);
-
-       
         const startM = finalM * (Math.random() * 0.4 + 0.6);
-        const startB = finalB + (Math.random() - 0.5) * 4;  
+        const startB = finalB + (Math.random() - 0.5) * 4;
 
+        const frames = userPoints.map((_, i) => {
+            const progress = i / (userPoints.length - 1);
+            const m = startM + (finalM - startM) * progress;
+            const b = startB + (finalB - startB) * progress;
+            return { m, b, error: sumSquaredError(userPoints, m, b) };
+        });
 
+        // Finalize any "temp" preview points before animating
+        setPoints(userPoints);
+        setManualM(null);
+        setManualB(null);
+        setTimeline(frames);
         setAnimationPoints(userPoints);
         setIsAnimating(true);
         setShowResiduals(false);
         setCurrentAnimationStep(0);
+        setCurrentM(frames[0].m);
+        setCurrentB(frames[0].b);
+        setIsPlaying(true);
+    };
+
+    // Leaves the timeline and settles on the fitted line
+    const stopAnimation = () => {
+        const final = timeline[timeline.length - 1];
+        if (final) {
+            setCurrentM(final.m);
+            setCurrentB(final.b);
+        }
+        setTimeline([]);
+        setIsPlaying(false);
+        setIsAnimating(false);
+        setAnimationPoints([]);
+        setShowResiduals(true);
+    };
 
-        let currentStep = 0;
-        const totalPoints = userPoints.length;
-
-        const getDelay = (speed: number): number => {
-            if (speed <= 1) return 5000;
-            if (speed <= 10) return 4000;
-            if (speed <= 20) return 4000;
-            if (speed <= 25) return 3000;
-            if (speed <= 40) return 2000;
-            if (speed <= 50) return 2000;
-            if (speed <= 60) return 1500;
-            if (speed <= 75) return 1000;
-            if (speed <= 90) return 800;
-            if (speed <= 100) return 500;
-            return 1000;
+    const exportTimeline = () => {
+        const data = {
+            points: animationPoints,
+            frames: timeline.map((f, frame) => ({ frame, ...f })),
         };
+        const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = "regression-timeline.json";
+        link.click();
+        URL.revokeObjectURL(url);
+    };
 
-        
-        const animateStep = () => {
-            if (cancel) return;
+    useEffect(() => {
+        if (!isPlaying || currentAnimationStep >= timeline.length - 1) return;
+        const timer = setTimeout(() => showFrame(currentAnimationStep + 1), frameDelay(animSpeed));
+        return () => clearTimeout(timer);
+    }, [isPlaying, currentAnimationStep, timeline.length, animSpeed, showFrame]);
 
-            const progress = currentStep / (totalPoints - 1);
-            const newM = startM + (finalM - startM) * progress;
-            const newB = startB + (finalB - startB) * progress;
 
-            const currentError = calcCurrentError(newM, newB);
 
-           
-            currentMRef.current = newM;
-            currentBRef.current = newB;
-            setCurrentM(newM);
-            setCurrentB(newB);
-            setCurrentAnimationStep(currentStep);
 
-            draw();
 
-            const canvas = canvasRef.current;
-            if (canvas) {
-                const ctx = canvas.getContext("2d");
-                if (ctx) {
-                    ctx.fillStyle = theme === "dark" ? "#9ca3af" : "#6b7280";
-                    ctx.font = "12px sans-serif";
-                    ctx.fillText(
-                        `Total Error (Sum of Squared Residuals): ${currentError.toFixed(4)}`,
-                        PADDING + 2,
-                        38
-                    );
-                }
-            }
+    useEffect(() => {
+        draw();
+    }, [draw]);
 
-            if (currentStep < totalPoints - 1) {
-                currentStep++;
-                const delay = getDelay(animSpeed);
-                setTimeout(animateStep, delay);
-            } else {
-                setTimeout(() => {
-                    setCurrentM(finalM);
-                    setCurrentB(finalB);
-                    setShowResiduals(true);
-                    setIsAnimating(false);
-                    setIsAnimatingLine(false);
-                    setAnimationPoints([]);
-                }, 800);
-            }
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
 
-            console.log(
-                "Frame:", currentStep,
-                "| M:", newM.toFixed(3),
-                "| B:", newB.toFixed(3),
-                "| Error:", currentError.toFixed(4)
-            );
+        const rect = () => canvas.getBoundingClientRect();
+        const lineEditable = !basisFit && !isTraining;
+        // Binary mode snaps new and dragged points to the nearer label
+        const toTarget = (y: number) => (isBinary ? (y >= 0.5 ? 1 : 0) : parseFloat(y.toFixed(2)));
+
+        const inPlot = (px: number, py: number) =>
+            px >= PADDING && px <= canvas.clientWidth - PADDING && py >= PADDING && py <= canvas.clientHeight - PADDING;
+
+        // Topmost point under the cursor, or -1
+        const hitPoint = (px: number, py: number) => {
+            for (let i = points.length - 1; i >= 0; i--) {
+                const q = dataToPixel(points[i].x, points[i].y, canvas.clientWidth, canvas.clientHeight);
+                if (Math.hypot(q.px - px, q.py - py) <= POINT_RADIUS + 4) return i;
+            }
+            return -1;
         };
 
-        animateStep();
-
-        return () => {
-            cancel = true;
+        const hitHandle = (px: number, py: number) => {
+            if (!lineEditable) return -1;
+            const { xmin, xmax } = getDomain();
+            return lineHandleXs(xmin, xmax).findIndex((hx) => {
+                const q = dataToPixel(hx, currentM * hx + currentB, canvas.clientWidth, canvas.clientHeight);
+                return Math.abs(q.px - px) <= HANDLE_SIZE && Math.abs(q.py - py) <= HANDLE_SIZE;
+            });
         };
-    }, [isAnimatingLine, animSpeed, points]);
-
 
+        const deletePoint = (index: number) => {
+            setPoints((prev) => prev.filter((_, i) => i !== index));
+            setHoverIdx(null);
+        };
 
+        const onDown = (e: PointerEvent) => {
+            if (isAnimating || isTraining || e.button !== 0) return;
+            const r = rect();
+            const px = e.clientX - r.left;
+            const py = e.clientY - r.top;
+            if (!inPlot(px, py)) return;
+
+            canvas.setPointerCapture(e.pointerId);
+            pressRef.current = { px, py, moved: false };
+
+            const handle = hitHandle(px, py);
+            const index = handle < 0 ? hitPoint(px, py) : -1;
+            if (handle >= 0) {
+                // The line pivots around the handle that is not being dragged
+                const { xmin, xmax } = getDomain();
+                const ax = lineHandleXs(xmin, xmax)[1 - handle];
+                dragRef.current = { kind: "handle", anchor: { x: ax, y: currentM * ax + currentB } };
+            } else if (index >= 0) {
+                dragRef.current = { kind: "point", index };
+                if (e.pointerType !== "mouse") {
+                    pressRef.current.timer = setTimeout(() => {
+                        if (pressRef.current && !pressRef.current.moved) {
+                            deletePoint(index);
+                            dragRef.current = null;
+                            pressRef.current = null;
+                        }
+                    }, LONG_PRESS_MS);
+                }
+            }
 
+            if (dragRef.current) {
+                setDragDomain(getDomain());
+                setHoverIdx(null);
+            }
+        };
 
-    useEffect(() => {
-        draw();
-    }, [draw]);
+        const onUp = (e: PointerEvent) => {
+            const press = pressRef.current;
+            if (canvas.hasPointerCapture(e.pointerId)) canvas.releasePointerCapture(e.pointerId);
+            if (!press) return;
+            clearTimeout(press.timer);
+
+            if (!press.moved && !dragRef.current) {
+                const { x, y } = pixelToData(press.px, press.py, canvas.clientWidth, canvas.clientHeight);
+                setPoints((prev) => [...prev, { x: parseFloat(x.toFixed(2)), y: toTarget(y) }]);
+                setShowResiduals(true);
+                setIsAddingPoint(true);
+            }
 
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+            pressRef.current = null;
+            dragRef.current = null;
+            setDragDomain(null);
+        };
 
-        const rect = () => canvas.getBoundingClientRect();
+        const onContextMenu = (e: MouseEvent) => {
+            const r = rect();
+            const index = hitPoint(e.clientX - r.left, e.clientY - r.top);
+            if (index < 0 || isAnimating || isTraining) return;
+            e.preventDefault();
+            deletePoint(index);
+        };
 
-        const onMove = (e: MouseEvent) => {
+        const onMove = (e: PointerEvent) => {
             if (isAnimating) return;
 
             const r = rect();
@@ -543,7 +1173,38 @@ export default function LinearRegression() {
             const width = canvas.clientWidth;
             const height = canvas.clientHeight;
 
-            if (px < PADDING || px > width - PADDING || py < PADDING || py > height - PADDING) {
+            const press = pressRef.current;
+            if (press && !press.moved && Math.hypot(px - press.px, py - press.py) > 3) {
+                press.moved = true;
+                clearTimeout(press.timer);
+            }
+
+            const drag = dragRef.current;
+            if (drag && press?.moved) {
+                const cx = Math.max(PADDING, Math.min(width - PADDING, px));
+                const cy = Math.max(PADDING, Math.min(height - PADDING, py));
+                const { x, y } = pixelToData(cx, cy, width, height);
+                if (drag.kind === "point") {
+                    setPoints((prev) => prev.map((p, i) => (
+                        i === drag.index ? { x: parseFloat(x.toFixed(2)), y: toTarget(y) } : p
+                    )));
+                } else if (Math.abs(x - drag.anchor.x) > 1e-6) {
+                    const m = (y - drag.anchor.y) / (x - drag.anchor.x);
+                    const b = drag.anchor.y - m * drag.anchor.x;
+                    setManualM(m);
+                    setManualB(b);
+                    if (trainingMode === "gradient-descent") resetGradientDescent(m, b);
+                }
+                canvas.style.cursor = "grabbing";
+                return;
+            }
+
+            const overIdx = hitPoint(px, py);
+            const overHandle = hitHandle(px, py) >= 0;
+            canvas.style.cursor = overIdx >= 0 || overHandle ? "grab" : "crosshair";
+            if (overIdx !== hoverIdx) setHoverIdx(overIdx >= 0 ? overIdx : null);
+
+            if (!inPlot(px, py) || overIdx >= 0) {
                 draw();
                 return;
             }
@@ -554,10 +1215,10 @@ export default function LinearRegression() {
             draw();
 
             const { x: dataX } = pixelToData(px, py, width, height);
-            const predictedY = currentM * dataX + currentB;
+            const predictedY = predict(dataX);
 
             const residuals = points.map((p, i) => {
-                const hoverPred = currentM * dataX + currentB;
+                const hoverPred = predict(dataX);
                 const diff = p.y - hoverPred;
                 return `Residual ${i}: ${diff.toFixed(4)}`;
             });
@@ -602,16 +1263,28 @@ export default function LinearRegression() {
             }
         };
 
-        const onLeave = () => draw();
+        const onLeave = () => {
+            setHoverIdx(null);
+            draw();
+        };
 
-        canvas.addEventListener("mousemove", onMove);
-        canvas.addEventListener("mouseleave", onLeave);
+        canvas.addEventListener("pointerdown", onDown);
+        canvas.addEventListener("pointermove", onMove);
+        canvas.addEventListener("pointerup", onUp);
+        canvas.addEventListener("pointercancel", onUp);
+        canvas.addEventListener("pointerleave", onLeave);
+        canvas.addEventListener("contextmenu", onContextMenu);
 
         return () => {
-            canvas.removeEventListener("mousemove", onMove);
-            canvas.removeEventListener("mouseleave", onLeave);
+            canvas.removeEventListener("pointerdown", onDown);
+            canvas.removeEventListener("pointermove", onMove);
+            canvas.removeEventListener("pointerup", onUp);
+            canvas.removeEventListener("pointercancel", onUp);
+            canvas.removeEventListener("pointerleave", onLeave);
+            canvas.removeEventListener("contextmenu", onContextMenu);
         };
-    }, [points, currentM, currentB, theme, draw, isAnimating]);
+    }, [points, currentM, currentB, theme, draw, isAnimating, predict, basisFit, isTraining, hoverIdx,
+        getDomain, trainingMode, resetGradientDescent, isBinary]);
 
     useEffect(() => {
         if (manualM !== null) setCurrentM(manualM);
@@ -628,7 +1301,7 @@ export default function LinearRegression() {
         const y = parseFloat(yEl.value || "");
 
         if (Number.isFinite(x) && Number.isFinite(y)) {
-            setPoints((p) => [...p, { x, y }]);
+            setPoints((p) => [...p, { x, y: isBinary ? (y >= 0.5 ? 1 : 0) : y }]);
             setManualM(null);
             setManualB(null);
             setShowResiduals(true);
@@ -639,14 +1312,39 @@ export default function LinearRegression() {
         }
     };
 
+    // Entering binary mode thresholds the current points in place
+    const changeTargetMode = (mode: "continuous" | "binary") => {
+        setTargetMode(mode);
+        if (mode !== "binary") return;
+        stopAnimation();
+        setIsTraining(false);
+        setPoints(binarize);
+        setDatasetOptions(null);
+        setManualM(null);
+        setManualB(null);
+        setHoverIdx(null);
+    };
+
     const clearPoints = () => {
         setPoints([]);
         setManualM(null);
         setManualB(null);
+        stopAnimation();
         setCurrentM(0);
         setCurrentB(0);
-        setAnimationPoints([]);
-        setIsAnimating(false);
+        setDatasetOptions(null);
+    };
+
+    const generateData = (opts: DatasetOptions) => {
+        stopAnimation();
+        setIsTraining(false);
+        const generated = generateDataset(opts, createRng(opts.seed));
+        setPoints(isBinary ? binarize(generated) : generated);
+        // The true curve describes y before thresholding, so it no longer applies
+        setDatasetOptions(isBinary ? null : opts);
+        setManualM(null);
+        setManualB(null);
+        setHoverIdx(null);
     };
 
     useEffect(() => {
@@ -689,6 +1387,63 @@ export default function LinearRegression() {
                 Animated Linear Regression
             </h1>
 
+            <div className="flex justify-center gap-2">
+                {([
+                    ["continuous", "Continuous Target"],
+                    ["binary", "Binary Target (0/1)"],
+                ] as const).map(([mode, label]) => (
+                    <button
+                        key={mode}
+                        onClick={() => changeTargetMode(mode)}
+                        className={`px-4 py-2 rounded text-sm transition-colors ${targetMode === mode
+                            ? "bg-blue-600 text-white"
+                            : theme === "dark" ? "bg-gray-700 text-gray-200 hover:bg-gray-600" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {isBinary && (
+                <div className={`max-w-6xl mx-auto p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
+                    <h3 className="font-semibold mb-1">Linear vs Logistic Regression on Binary Labels</h3>
+                    <p className={`text-xs mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                        Logistic regression models P(y = 1 | x) = σ(w₀ + w₁x) and minimises the log-loss
+                        −Σ [y log p + (1 − y) log(1 − p)] instead of squared residuals. Newton's method (IRLS) reweights
+                        each point by p(1 − p) and usually converges in a handful of steps. The blue sigmoid is drawn on
+                        the canvas below next to the least-squares line, whose predictions leave [0, 1].
+                    </p>
+                    <BinaryRegression
+                        theme={theme}
+                        solver={logSolver}
+                        onSolverChange={(solver) => {
+                            setLogSolver(solver);
+                            resetLogistic();
+                        }}
+                        learningRate={logLearningRate}
+                        onLearningRateChange={setLogLearningRate}
+                        params={logParams}
+                        iteration={logIteration}
+                        status={logStatus}
+                        isRunning={logRunning}
+                        onRunToggle={() => {
+                            if (logStatus !== null) resetLogistic();
+                            setLogRunning((r) => !r);
+                        }}
+                        onStep={() => logisticStepOnce()}
+                        onReset={resetLogistic}
+                        loss={logisticLoss}
+                        accuracy={binaryAccuracy}
+                    />
+                    <p className={`text-xs mt-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                        Points were labelled 1 if their y was above the mean. Clicking above the dashed 0.5 line adds a
+                        class-1 point, below it a class-0 point. Switching back to a continuous target keeps the 0/1
+                        labels; generate new data to get a continuous y again.
+                    </p>
+                </div>
+            )}
+
             <div className="grid md:grid-cols-3 gap-6 max-w-6xl mx-auto">
                 <div className={`md:col-span-2 p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
                     <div className="flex justify-between items-start mb-2">
@@ -701,14 +1456,51 @@ export default function LinearRegression() {
                                 {points.length}
                             </span>
                             {isAnimating && <span className="ml-2 text-green-500">(Animating...)</span>}
+                            {isTraining && <span className="ml-2 text-green-500">(Training...)</span>}
                         </div>
                     </div>
 
-                    <div className="relative">
-                        <canvas
-                            ref={canvasRef}
-                            style={{ width: "100%", height: 420 }}
-                            className={`w-full rounded border cursor-crosshair ${theme === "dark" ? "bg-gray-700 border-gray-600" : "bg-white border-gray-300"}`}
+                    <div className="grid lg:grid-cols-2 gap-4">
+                        <div className="relative">
+                            <canvas
+                                ref={canvasRef}
+                                style={{ width: "100%", height: 420 }}
+                                className={`w-full rounded border cursor-crosshair touch-none ${theme === "dark" ? "bg-gray-700 border-gray-600" : "bg-white border-gray-300"}`}
+                            />
+                            {timeline.length > 0 && (
+                                <AnimationTimeline
+                                    frames={timeline}
+                                    frame={currentAnimationStep}
+                                    isPlaying={isPlaying}
+                                    theme={theme}
+                                    onPlayPause={() => {
+                                        if (isPlaying) {
+                                            setIsPlaying(false);
+                                            return;
+                                        }
+                                        if (currentAnimationStep >= timeline.length - 1) showFrame(0);
+                                        setIsPlaying(true);
+                                    }}
+                                    onSeek={(frame) => {
+                                        setIsPlaying(false);
+                                        showFrame(frame);
+                                    }}
+                                    onExport={exportTimeline}
+                                    onClose={stopAnimation}
+                                />
+                            )}
+                            <div className={`text-xs mt-2 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                                Click to add a point, drag to move it, right-click or long-press to delete.
+                                Drag the square handles to move the line.
+                            </div>
+                        </div>
+                        <LossSurface
+                            points={points}
+                            theme={theme}
+                            current={{ m: currentM, b: currentB }}
+                            manual={manualPosition}
+                            optimum={{ m: targetM, b: targetB }}
+                            path={gdPath}
                         />
                     </div>
                 </div>
@@ -747,6 +1539,36 @@ export default function LinearRegression() {
                                 minimizes the sum of these squared errors.
                             </li>
                         </ol>
+
+                        {trainingMode === "gradient-descent" && (
+                            <>
+                                <h3 className="font-semibold mt-4 mb-2">How Gradient Descent Works</h3>
+                                <ol
+                                    className={`list-decimal ml-4 text-sm space-y-2 ${theme === "dark" ? "text-gray-300" : "text-gray-600"
+                                        }`}
+                                >
+                                    <li>
+                                        <strong>Start from a guess</strong> – The manual sliders set the starting m and b.
+                                    </li>
+                                    <li>
+                                        <strong>Compute the gradient</strong> – ∂MSE/∂m = −(2/n) Σ x(y − ŷ) and
+                                        ∂MSE/∂b = −(2/n) Σ (y − ŷ) over the current batch.
+                                    </li>
+                                    <li>
+                                        <strong>Update the parameters</strong> – m ← m − η·∂m and b ← b − η·∂b,
+                                        where η is the learning rate.
+                                    </li>
+                                    <li>
+                                        <strong>Repeat every epoch</strong> – Batch uses all points per update,
+                                        mini-batch a shuffled subset and stochastic a single point.
+                                    </li>
+                                    <li>
+                                        <strong>Watch the learning rate</strong> – Too small converges slowly,
+                                        too large oscillates or diverges.
+                                    </li>
+                                </ol>
+                            </>
+                        )}
                     </div>
 
                     <div className={`p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
@@ -761,14 +1583,16 @@ export default function LinearRegression() {
                                     const y = parseFloat(yEl.value);
 
                                     if (!isNaN(x) && !isNaN(y)) {
+                                        // Binary targets preview as their class so the logistic fit only sees 0/1
+                                        const target = isBinary ? (y >= 0.5 ? 1 : 0) : y;
                                         setPoints((prev) => {
                                             const newPoints = [...prev];
                                             if (newPoints.length > 0 && newPoints[newPoints.length - 1].temp) {
                                                 // replace temp preview
-                                                newPoints[newPoints.length - 1] = { x, y, temp: true } as any;
+                                                newPoints[newPoints.length - 1] = { x, y: target, temp: true } as any;
                                             } else {
                                                 // add once as preview
-                                                newPoints.push({ x, y, temp: true } as any);
+                                                newPoints.push({ x, y: target, temp: true } as any);
                                             }
                                             return newPoints;
                                         });
@@ -789,12 +1613,13 @@ export default function LinearRegression() {
                                     const x = parseFloat(xEl.value);
 
                                     if (!isNaN(x) && !isNaN(y)) {
+                                        const target = isBinary ? (y >= 0.5 ? 1 : 0) : y;
                                         setPoints((prev) => {
                                             const newPoints = [...prev];
                                             if (newPoints.length > 0 && newPoints[newPoints.length - 1].temp) {
-                                                newPoints[newPoints.length - 1] = { x, y, temp: true } as any;
+                                                newPoints[newPoints.length - 1] = { x, y: target, temp: true } as any;
                                             } else {
-                                                newPoints.push({ x, y, temp: true } as any);
+                                                newPoints.push({ x, y: target, temp: true } as any);
                                             }
                                             return newPoints;
                                         });
@@ -822,6 +1647,7 @@ export default function LinearRegression() {
                                     <tr className={theme === "dark" ? "text-gray-200" : "text-gray-600"}>
                                         <th className="text-left px-2 py-1">X</th>
                                         <th className="text-left px-2 py-1">Y</th>
+                                        {olsFit && <th className="text-left px-2 py-1">Weight</th>}
                                     </tr>
                                 </thead>
                                 <tbody>
@@ -829,6 +1655,11 @@ export default function LinearRegression() {
                                         <tr key={i} className={theme === "dark" ? "border-gray-600" : "border-gray-200"}>
                                             <td className={`px-2 py-1 border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>{p.x}</td>
                                             <td className={`px-2 py-1 border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>{p.y}</td>
+                                            {olsFit && (
+                                                <td className={`px-2 py-1 border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>
+                                                    {basisFit?.residualWeights?.[i]?.toFixed(2)}
+                                                </td>
+                                            )}
                                         </tr>
                                     ))}
                                 </tbody>
@@ -836,26 +1667,342 @@ export default function LinearRegression() {
                         </div>
                     </div>
 
+                    <div className={`p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
+                        <h3 className="font-semibold mb-2">Generate Data</h3>
+                        <DatasetGenerator
+                            initial={DEFAULT_DATASET}
+                            showTruth={showTruth}
+                            theme={theme}
+                            onGenerate={generateData}
+                            onShowTruthChange={setShowTruth}
+                        />
+                        {showTruth && !truthCurve && (
+                            <p className="text-xs mt-2 text-yellow-500">
+                                The current points were not generated here, so there is no true curve to show.
+                            </p>
+                        )}
+                    </div>
+
                     <div className={`p-4 border rounded-lg space-y-3 ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
-                        <button
-                            onClick={() => {
-                                // 🧹 Step 1: finalize any "temp" preview points before animation
-                                setPoints((prev) =>
-                                    prev
-                                        .filter((p: any) => Number.isFinite(p.x) && Number.isFinite(p.y))
-                                        .map((p: any) => ({ x: p.x, y: p.y }))
-                                );
-
-
-                                setIsAnimatingLine(true);
-                                setManualM(null);
-                                setManualB(null);
-                            }}
-                            disabled={isAnimatingLine}
-                            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded w-full disabled:bg-gray-500 transition-colors"
-                        >
-                            {isAnimating ? "Animating..." : "Animate BFL"}
-                        </button>
+                        <div>
+                            <label className="text-sm block mb-1">Training Mode:</label>
+                            <select
+                                value={trainingMode}
+                                onChange={(e) => changeTrainingMode(e.target.value as "closed-form" | "gradient-descent")}
+                                disabled={isAnimating}
+                                className={`w-full p-2 border rounded ${theme === "dark"
+                                    ? "bg-gray-700 border-gray-600 text-white"
+                                    : "bg-white border-gray-300"
+                                    }`}
+                            >
+                                <option value="closed-form">Closed Form (Least Squares)</option>
+                                <option value="gradient-descent">Gradient Descent</option>
+                            </select>
+                        </div>
+
+                        {trainingMode === "gradient-descent" && (
+                            <>
+                                <div>
+                                    <label className="text-sm block mb-1">Variant:</label>
+                                    <select
+                                        value={gdMode}
+                                        onChange={(e) => setGdMode(e.target.value as GradientMode)}
+                                        className={`w-full p-2 border rounded ${theme === "dark"
+                                            ? "bg-gray-700 border-gray-600 text-white"
+                                            : "bg-white border-gray-300"
+                                            }`}
+                                    >
+                                        <option value="batch">Batch</option>
+                                        <option value="mini-batch">Mini-Batch</option>
+                                        <option value="stochastic">Stochastic</option>
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <div className="text-sm mb-1 flex justify-between">
+                                        <span>Learning Rate:</span>
+                                        <span className="font-medium">{learningRate.toPrecision(2)}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={-4}
+                                        max={0}
+                                        step={0.05}
+                                        value={Math.log10(learningRate)}
+                                        onChange={(e) => setLearningRate(Number((10 ** Number(e.target.value)).toPrecision(2)))}
+                                        className="w-full"
+                                    />
+                                </div>
+
+                                {gdMode === "mini-batch" && (
+                                    <div>
+                                        <div className="text-sm mb-1 flex justify-between">
+                                            <span>Batch Size:</span>
+                                            <span className="font-medium">{batchSize}</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min={1}
+                                            max={Math.max(1, points.length)}
+                                            value={Math.min(batchSize, Math.max(1, points.length))}
+                                            onChange={(e) => setBatchSize(Number(e.target.value))}
+                                            className="w-full"
+                                        />
+                                    </div>
+                                )}
+
+                                <div>
+                                    <div className="text-sm mb-1 flex justify-between">
+                                        <span>Max Epochs:</span>
+                                        <span className="font-medium">{maxEpochs}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={10}
+                                        max={1000}
+                                        step={10}
+                                        value={maxEpochs}
+                                        onChange={(e) => setMaxEpochs(Number(e.target.value))}
+                                        className="w-full"
+                                    />
+                                </div>
+
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => (isTraining ? setIsTraining(false) : startTraining())}
+                                        className="bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded w-full transition-colors"
+                                    >
+                                        {isTraining ? "Pause" : "Train"}
+                                    </button>
+                                    <button
+                                        onClick={() => gradientDescentStep()}
+                                        disabled={isTraining || gdStatus !== null}
+                                        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded w-full disabled:bg-gray-500 transition-colors"
+                                    >
+                                        Step
+                                    </button>
+                                    <button
+                                        onClick={() => resetGradientDescent(manualM ?? 0, manualB ?? 0)}
+                                        className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded w-full transition-colors"
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
+
+                                <div className={`text-sm space-y-1 ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                                    <div className="flex justify-between">
+                                        <span>Epoch:</span>
+                                        <span className="font-medium">{gdEpoch} / {maxEpochs}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Updates:</span>
+                                        <span className="font-medium">{gdStep}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Closed-form optimum:</span>
+                                        <span className="font-medium">m = {targetM.toFixed(3)}, b = {targetB.toFixed(3)}</span>
+                                    </div>
+                                    {gdStatus === "converged" && (
+                                        <div className="text-green-500">Converged: the gradient is close to zero.</div>
+                                    )}
+                                    {gdStatus === "diverged" && (
+                                        <div className="text-red-500">Diverged: the learning rate is too large for this data.</div>
+                                    )}
+                                    {gdStatus === "max-epochs" && (
+                                        <div className="text-yellow-500">Stopped after {maxEpochs} epochs without converging.</div>
+                                    )}
+                                </div>
+                            </>
+                        )}
+
+                        {trainingMode === "closed-form" && (
+                            <>
+                                <div>
+                                    <label className="text-sm block mb-1">Basis Functions:</label>
+                                    <select
+                                        value={basisKind}
+                                        onChange={(e) => setBasisKind(e.target.value as BasisKind)}
+                                        disabled={isAnimating}
+                                        className={`w-full p-2 border rounded ${theme === "dark"
+                                            ? "bg-gray-700 border-gray-600 text-white"
+                                            : "bg-white border-gray-300"
+                                            }`}
+                                    >
+                                        {(Object.keys(BASIS_LABELS) as BasisKind[]).map((k) => (
+                                            <option key={k} value={k}>{BASIS_LABELS[k]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <div className="text-sm mb-1 flex justify-between">
+                                        <span>{basisKind === "polynomial" ? "Degree:" : basisKind === "rbf" ? "Centers:" : "Harmonics:"}</span>
+                                        <span className="font-medium">{degree}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={1}
+                                        max={10}
+                                        value={degree}
+                                        onChange={(e) => setDegree(Number(e.target.value))}
+                                        disabled={isAnimating}
+                                        className="w-full"
+                                    />
+                                    {basisFit && basisFit.weights.length >= points.length && (
+                                        <div className="text-xs mt-1 text-yellow-500">
+                                            {basisFit.weights.length} coefficients for {points.length} points: the curve can pass
+                                            through every point (overfitting).
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <label className="text-sm block mb-1">Loss Function:</label>
+                                    <select
+                                        value={robustLoss}
+                                        onChange={(e) => {
+                                            setRobustLoss(e.target.value as RobustLoss);
+                                            setPenalty("none");
+                                        }}
+                                        disabled={isAnimating}
+                                        className={`w-full p-2 border rounded ${theme === "dark"
+                                            ? "bg-gray-700 border-gray-600 text-white"
+                                            : "bg-white border-gray-300"
+                                            }`}
+                                    >
+                                        {(Object.keys(LOSS_LABELS) as RobustLoss[]).map((k) => (
+                                            <option key={k} value={k}>{LOSS_LABELS[k]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {robustLoss === "huber" && (
+                                    <div>
+                                        <div className="text-sm mb-1 flex justify-between">
+                                            <span>Huber Delta (δ):</span>
+                                            <span className="font-medium">{huberDelta.toFixed(2)}</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min={0.1}
+                                            max={5}
+                                            step={0.05}
+                                            value={huberDelta}
+                                            onChange={(e) => setHuberDelta(Number(e.target.value))}
+                                            className="w-full"
+                                        />
+                                    </div>
+                                )}
+
+                                {robustLoss === "quantile" && (
+                                    <div>
+                                        <div className="text-sm mb-1 flex justify-between">
+                                            <span>Quantile (τ):</span>
+                                            <span className="font-medium">{quantileTau.toFixed(2)}</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min={0.05}
+                                            max={0.95}
+                                            step={0.05}
+                                            value={quantileTau}
+                                            onChange={(e) => setQuantileTau(Number(e.target.value))}
+                                            className="w-full"
+                                        />
+                                    </div>
+                                )}
+
+                                <div>
+                                    <label className="text-sm block mb-1">Regularization:</label>
+                                    <select
+                                        value={penalty}
+                                        onChange={(e) => setPenalty(e.target.value as Penalty)}
+                                        disabled={isAnimating || robustLoss !== "mse"}
+                                        className={`w-full p-2 border rounded ${theme === "dark"
+                                            ? "bg-gray-700 border-gray-600 text-white"
+                                            : "bg-white border-gray-300"
+                                            }`}
+                                    >
+                                        <option value="none">None (Least Squares)</option>
+                                        <option value="ridge">Ridge (L2)</option>
+                                        <option value="lasso">Lasso (L1)</option>
+                                        <option value="elastic-net">Elastic-Net (L1 + L2)</option>
+                                    </select>
+                                </div>
+
+                                {penalty !== "none" && (
+                                    <>
+                                        <div>
+                                            <div className="text-sm mb-1 flex justify-between">
+                                                <span>Lambda (λ):</span>
+                                                <span className="font-medium">{(10 ** logLambda).toPrecision(2)}</span>
+                                            </div>
+                                            <input
+                                                type="range"
+                                                min={LOG_LAMBDA_MIN}
+                                                max={LOG_LAMBDA_MAX}
+                                                step={0.05}
+                                                value={logLambda}
+                                                onChange={(e) => setLogLambda(Number(e.target.value))}
+                                                className="w-full"
+                                            />
+                                        </div>
+
+                                        {penalty === "elastic-net" && (
+                                            <div>
+                                                <div className="text-sm mb-1 flex justify-between">
+                                                    <span>L1 Ratio (α):</span>
+                                                    <span className="font-medium">{l1Ratio.toFixed(2)}</span>
+                                                </div>
+                                                <input
+                                                    type="range"
+                                                    min={0.05}
+                                                    max={1}
+                                                    step={0.05}
+                                                    value={l1Ratio}
+                                                    onChange={(e) => setL1Ratio(Number(e.target.value))}
+                                                    className="w-full"
+                                                />
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+
+                                {basisFit && (
+                                    <div className={`max-h-40 overflow-auto border rounded text-xs ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+                                        <table className="w-full">
+                                            <tbody>
+                                                {basisNames(basisFit.spec).map((name, i) => (
+                                                    <tr key={name} className={`border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>
+                                                        <td className="px-2 py-1">w{i} ({name})</td>
+                                                        <td className="px-2 py-1 text-right font-mono">{basisFit.weights[i].toFixed(4)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
+                                {basisFit && regPath.length > 0 && (
+                                    <RegularizationPath
+                                        path={regPath}
+                                        names={basisNames(basisFit.spec).slice(1)}
+                                        logLambda={logLambda}
+                                        theme={theme}
+                                    />
+                                )}
+                            </>
+                        )}
+
+                        {trainingMode === "closed-form" && !isBasisModel && (
+                            <button
+                                onClick={startAnimation}
+                                disabled={isAnimating}
+                                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded w-full disabled:bg-gray-500 transition-colors"
+                            >
+                                {isAnimating ? "Animating..." : "Animate BFL"}
+                            </button>
+                        )}
 
 
                         <label className="flex items-center gap-2 cursor-pointer">
@@ -868,6 +2015,16 @@ export default function LinearRegression() {
                             <span className="text-sm">Show Residuals</span>
                         </label>
 
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={showBands}
+                                onChange={(e) => setShowBands(e.target.checked)}
+                                className="rounded"
+                            />
+                            <span className="text-sm">Show 95% Confidence / Prediction Bands</span>
+                        </label>
+
                         <div>
                             <div className="text-sm mb-1 flex justify-between">
                                 <span>Animation Speed:</span>
@@ -883,46 +2040,208 @@ export default function LinearRegression() {
                             />
                         </div>
 
-                        <div>
+                        {!isBasisModel && (
+                            <>
+                                <div>
+                                    <div className="text-sm mb-1 flex justify-between">
+                                        <span>Manual Slope (m):</span>
+                                        <span className="font-medium">{(manualM ?? currentM).toFixed(2)}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={-5}
+                                        max={5}
+                                        step={0.01}
+                                        value={manualM ?? currentM}
+                                        onChange={(e) => {
+                                            setManualM(Number(e.target.value));
+                                            stopAnimation();
+                                            if (trainingMode === "gradient-descent") {
+                                                resetGradientDescent(Number(e.target.value), currentB);
+                                            }
+                                        }}
+                                        className="w-full"
+                                    />
+                                </div>
+
+                                <div>
+                                    <div className="text-sm mb-1 flex justify-between">
+                                        <span>Manual Intercept (b):</span>
+                                        <span className="font-medium">{(manualB ?? currentB).toFixed(2)}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={-10}
+                                        max={10}
+                                        step={0.01}
+                                        value={manualB ?? currentB}
+                                        onChange={(e) => {
+                                            setManualB(Number(e.target.value));
+                                            stopAnimation();
+                                            if (trainingMode === "gradient-descent") {
+                                                resetGradientDescent(currentM, Number(e.target.value));
+                                            }
+                                        }}
+                                        className="w-full"
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <div className={`max-w-6xl mx-auto p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
+                <h3 className="font-semibold mb-1">Statistical Inference (Least-Squares Line)</h3>
+                <p className={`text-xs mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                    Assumes independent, normally distributed errors with constant variance. On the canvas the darker
+                    red band is the 95% confidence band for the mean response, the lighter purple band the 95% prediction
+                    band for a new observation.
+                </p>
+                <InferencePanel inference={inference} theme={theme} />
+            </div>
+
+            <div className={`max-w-6xl mx-auto p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
+                <h3 className="font-semibold mb-3">Residual Diagnostics (Current Model)</h3>
+                <DiagnosticsPanel diagnostics={diagnostics} theme={theme} />
+            </div>
+
+            <div className={`max-w-6xl mx-auto p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
+                <h3 className="font-semibold mb-3">Resampling: Bootstrap &amp; Cross-Validation</h3>
+                <div className="flex flex-wrap items-end gap-4 mb-4">
+                    <div className="flex gap-2">
+                        {([
+                            ["off", "Off"],
+                            ["bootstrap", "Bootstrap"],
+                            ["cv", "k-Fold CV"],
+                        ] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setResampleMode(mode)}
+                                className={`px-3 py-1 rounded text-sm transition-colors ${resampleMode === mode
+                                    ? "bg-blue-600 text-white"
+                                    : theme === "dark" ? "bg-gray-700 text-gray-200 hover:bg-gray-600" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                    }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {resampleMode === "bootstrap" && (
+                        <div className="w-56">
                             <div className="text-sm mb-1 flex justify-between">
-                                <span>Manual Slope (m):</span>
-                                <span className="font-medium">{(manualM ?? currentM).toFixed(2)}</span>
+                                <span>Resamples (B):</span>
+                                <span className="font-medium">{bootstrapCount}</span>
                             </div>
                             <input
                                 type="range"
-                                min={-5}
-                                max={5}
-                                step={0.01}
-                                value={manualM ?? currentM}
-                                onChange={(e) => {
-                                    setManualM(Number(e.target.value));
-                                    setIsAnimating(false);
-                                }}
+                                min={10}
+                                max={500}
+                                step={10}
+                                value={bootstrapCount}
+                                onChange={(e) => setBootstrapCount(Number(e.target.value))}
                                 className="w-full"
                             />
                         </div>
+                    )}
 
-                        <div>
+                    {resampleMode === "cv" && (
+                        <div className="w-56">
                             <div className="text-sm mb-1 flex justify-between">
-                                <span>Manual Intercept (b):</span>
-                                <span className="font-medium">{(manualB ?? currentB).toFixed(2)}</span>
+                                <span>Folds (k):</span>
+                                <span className="font-medium">{cvFolds}</span>
                             </div>
                             <input
                                 type="range"
-                                min={-10}
+                                min={2}
                                 max={10}
-                                step={0.01}
-                                value={manualB ?? currentB}
-                                onChange={(e) => {
-                                    setManualB(Number(e.target.value));
-                                    setIsAnimating(false);
-                                }}
+                                value={cvFolds}
+                                onChange={(e) => setCvFolds(Number(e.target.value))}
                                 className="w-full"
                             />
                         </div>
-                    </div>
+                    )}
+
+                    {resampleMode !== "off" && (
+                        <button
+                            onClick={() => setResampleSeed(randomSeed())}
+                            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded transition-colors"
+                        >
+                            Resample
+                        </button>
+                    )}
                 </div>
+
+                {resampleMode === "bootstrap" && (
+                    bootstrap.length ? (
+                        <>
+                            <div className="grid md:grid-cols-2 gap-4">
+                                <Histogram values={bootstrapSummary.ms} label="Bootstrapped slope (m)" theme={theme} markers={bootstrapSummary.mMarkers} />
+                                <Histogram values={bootstrapSummary.bs} label="Bootstrapped intercept (b)" theme={theme} markers={bootstrapSummary.bMarkers} />
+                            </div>
+                            <p className={`text-sm mt-3 ${theme === "dark" ? "text-gray-300" : "text-gray-600"}`}>
+                                95% percentile intervals: slope [{bootstrapSummary.mCi[0].toFixed(3)}, {bootstrapSummary.mCi[1].toFixed(3)}],
+                                intercept [{bootstrapSummary.bCi[0].toFixed(3)}, {bootstrapSummary.bCi[1].toFixed(3)}].
+                                The red line marks the full-data estimate; the translucent fan on the plot shows every resampled line.
+                            </p>
+                        </>
+                    ) : (
+                        <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>Add at least two points to bootstrap.</p>
+                    )
+                )}
+
+                {resampleMode === "cv" && (
+                    crossValidation ? (
+                        <div className={`overflow-x-auto border rounded ${theme === "dark" ? "border-gray-600" : "border-gray-300"}`}>
+                            <table className="w-full text-sm">
+                                <thead className={theme === "dark" ? "bg-gray-600 text-gray-200" : "bg-gray-50 text-gray-600"}>
+                                    <tr>
+                                        <th className="text-left px-2 py-1">Fold</th>
+                                        <th className="text-right px-2 py-1">Train / Test</th>
+                                        <th className="text-right px-2 py-1">Test MSE</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {crossValidation.results.map((r, f) => (
+                                        <tr key={f} className={`border-t ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>
+                                            <td className="px-2 py-1">
+                                                <span style={{ color: FOLD_COLORS[f % FOLD_COLORS.length] }}>●</span> Fold {f + 1}
+                                            </td>
+                                            <td className="px-2 py-1 text-right">{r.trainSize} / {r.testSize}</td>
+                                            <td className="px-2 py-1 text-right font-mono">{r.mse.toFixed(4)}</td>
+                                        </tr>
+                                    ))}
+                                    <tr className={`border-t font-semibold ${theme === "dark" ? "border-gray-600" : "border-gray-200"}`}>
+                                        <td className="px-2 py-1">Mean</td>
+                                        <td />
+                                        <td className="px-2 py-1 text-right font-mono">{crossValidation.meanMse.toFixed(4)}</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <p className={`text-sm ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                            Add at least {cvFolds} points for {cvFolds}-fold cross-validation.
+                        </p>
+                    )
+                )}
+
+                {resampleMode === "cv" && crossValidation && (
+                    <p className={`text-xs mt-2 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                        Points are coloured by the fold they are held out in; each dashed curve is the model trained without that fold.
+                    </p>
+                )}
+            </div>
+
+            <div className={`max-w-6xl mx-auto p-4 border rounded-lg ${theme === "dark" ? "bg-gray-800 border-gray-700" : "bg-white border-gray-200"}`}>
+                <h3 className="font-semibold mb-1">Multiple Linear Regression</h3>
+                <p className={`text-xs mb-3 ${theme === "dark" ? "text-gray-400" : "text-gray-500"}`}>
+                    With two or more features least squares fits a plane (or hyperplane) instead of a line. Drag the 3D
+                    view to rotate it.
+                </p>
+                <MultipleRegression theme={theme} />
             </div>
         </div>
     );
-}
\ No newline at end of file
+}
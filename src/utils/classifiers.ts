@@ -0,0 +1,860 @@
+import { sigmoid } from "./math";
+import { gaussian } from "./random";
+
+// A training point with its class index. Binary models treat class 0 as the
+// positive class, matching the page's "f ≥ 0 → Class A" convention.
+export type Sample = { x: number; y: number; cls: number };
+
+export type FeatureMap = (x: number, y: number) => number[];
+
+// All monomials xⁱyʲ with i + j ≤ degree, grouped by total degree; degree 2
+// gives [1, x, y, x², xy, y²]
+export function polynomialFeatures(degree: number): FeatureMap {
+    return (x, y) => {
+        const features: number[] = [];
+        for (let d = 0; d <= degree; d++) {
+            for (let j = 0; j <= d; j++) features.push(x ** (d - j) * y ** j);
+        }
+        return features;
+    };
+}
+
+const SUPERSCRIPTS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+function monomialName(px: number, py: number) {
+    const term = (v: string, p: number) => (p === 0 ? "" : p === 1 ? v : v + SUPERSCRIPTS[p]);
+    return term("x", px) + term("y", py) || "1";
+}
+
+// Hand-picked basis functions; r is the distance from the data centre
+export const CUSTOM_FEATURES = {
+    x: (x: number) => x,
+    y: (_x: number, y: number) => y,
+    "x²": (x: number) => x * x,
+    "y²": (_x: number, y: number) => y * y,
+    xy: (x: number, y: number) => x * y,
+    "sin x": (x: number) => Math.sin(x),
+    "sin y": (_x: number, y: number) => Math.sin(y),
+    "cos x": (x: number) => Math.cos(x),
+    "cos y": (_x: number, y: number) => Math.cos(y),
+    r: (_x: number, _y: number, r: number) => r,
+    "r²": (_x: number, _y: number, r: number) => r * r,
+};
+
+export type CustomFeature = keyof typeof CUSTOM_FEATURES;
+
+export type FeatureSpec = { kind: "polynomial"; degree: number } | { kind: "custom"; features: CustomFeature[] };
+
+// A feature map together with a display name per feature (bias first)
+export type NamedFeatures = { map: FeatureMap; names: string[] };
+
+export function buildFeatures(spec: FeatureSpec, center: { x: number; y: number }): NamedFeatures {
+    if (spec.kind === "polynomial") {
+        const names: string[] = [];
+        for (let d = 0; d <= spec.degree; d++) {
+            for (let j = 0; j <= d; j++) names.push(monomialName(d - j, j));
+        }
+        return { map: polynomialFeatures(spec.degree), names };
+    }
+    const fns = spec.features.map((f) => CUSTOM_FEATURES[f]);
+    return {
+        map: (x, y) => {
+            const r = Math.hypot(x - center.x, y - center.y);
+            return [1, ...fns.map((fn) => fn(x, y, r))];
+        },
+        names: ["1", ...spec.features],
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Logistic regression
+// ---------------------------------------------------------------------------
+
+export type Penalty = "none" | "l1" | "l2";
+
+export type LogisticOptions = { learningRate: number; epochs: number; penalty?: Penalty; lambda?: number };
+
+// Proximal step on the non-bias weights after a gradient step: dividing by
+// 1 + step·λ for L2 (never flips signs, however large the step) and
+// soft-thresholding for L1, which can zero weights
+function applyPenalty(w: number[], step: number, penalty: Penalty, lambda: number) {
+    for (let j = 1; j < w.length; j++) {
+        if (penalty === "l2") w[j] /= 1 + step * lambda;
+        else if (penalty === "l1") w[j] = Math.sign(w[j]) * Math.max(0, Math.abs(w[j]) - step * lambda);
+    }
+}
+
+export type LogisticResult = {
+    weights: number[];
+    // Weights at evenly spaced epochs, for replaying training
+    history: number[][];
+    loss: number;
+};
+
+// Batch gradient descent on the mean log-loss. Features (other than the bias)
+// are standardised while training so one learning rate suits x and x² alike,
+// and the penalty acts on those standardised weights; the returned weights
+// are mapped back to the raw feature scale.
+export function trainLogistic(
+    samples: Sample[],
+    features: FeatureMap,
+    { learningRate, epochs, penalty = "none", lambda = 0 }: LogisticOptions,
+    snapshots = 60
+): LogisticResult {
+    const d = features(0, 0).length;
+    if (!samples.length) return { weights: new Array(d).fill(0), history: [], loss: 0 };
+
+    const rows = samples.map((s) => features(s.x, s.y));
+    const targets = samples.map((s) => (s.cls === 0 ? 1 : 0));
+    const n = rows.length;
+    const mean = new Array(d).fill(0);
+    const std = new Array(d).fill(1);
+    for (let j = 1; j < d; j++) {
+        mean[j] = rows.reduce((s, r) => s + r[j], 0) / n;
+        const variance = rows.reduce((s, r) => s + (r[j] - mean[j]) ** 2, 0) / n;
+        std[j] = Math.sqrt(variance) || 1;
+    }
+    const scaled = rows.map((r) => r.map((v, j) => (j === 0 ? 1 : (v - mean[j]) / std[j])));
+
+    const toRaw = (w: number[]) => {
+        const raw = w.map((v, j) => (j === 0 ? v : v / std[j]));
+        raw[0] -= w.reduce((s, v, j) => (j === 0 ? s : s + (v * mean[j]) / std[j]), 0);
+        return raw;
+    };
+
+    const w = new Array(d).fill(0);
+    const history: number[][] = [toRaw(w)];
+    const every = Math.max(1, Math.floor(epochs / snapshots));
+    let loss = 0;
+    for (let epoch = 1; epoch <= epochs; epoch++) {
+        const grad = new Array(d).fill(0);
+        loss = 0;
+        scaled.forEach((r, i) => {
+            const p = sigmoid(r.reduce((s, v, j) => s + v * w[j], 0));
+            const err = p - targets[i];
+            for (let j = 0; j < d; j++) grad[j] += err * r[j];
+            loss -= targets[i] ? Math.log(Math.max(p, 1e-12)) : Math.log(Math.max(1 - p, 1e-12));
+        });
+        for (let j = 0; j < d; j++) w[j] -= (learningRate * grad[j]) / n;
+        applyPenalty(w, learningRate, penalty, lambda);
+        if (epoch % every === 0 || epoch === epochs) history.push(toRaw(w));
+    }
+    return { weights: toRaw(w), history, loss: loss / n };
+}
+
+export function softmax(z: number[]) {
+    const max = Math.max(...z);
+    const e = z.map((v) => Math.exp(v - max));
+    const total = e.reduce((a, b) => a + b, 0);
+    return e.map((v) => v / total);
+}
+
+export type SoftmaxResult = {
+    // One weight row per class
+    weights: number[][];
+    history: number[][][];
+    loss: number;
+};
+
+// Multinomial logistic regression: P(class k) = softmax(W φ(x))ₖ, trained by
+// batch gradient descent on the cross-entropy with standardised features.
+export function trainSoftmax(
+    samples: Sample[],
+    features: FeatureMap,
+    classCount: number,
+    { learningRate, epochs, penalty = "none", lambda = 0 }: LogisticOptions,
+    snapshots = 60
+): SoftmaxResult {
+    const d = features(0, 0).length;
+    const zeros = () => Array.from({ length: classCount }, () => new Array(d).fill(0));
+    if (!samples.length) return { weights: zeros(), history: [], loss: 0 };
+
+    const rows = samples.map((s) => features(s.x, s.y));
+    const n = rows.length;
+    const mean = new Array(d).fill(0);
+    const std = new Array(d).fill(1);
+    for (let j = 1; j < d; j++) {
+        mean[j] = rows.reduce((s, r) => s + r[j], 0) / n;
+        const variance = rows.reduce((s, r) => s + (r[j] - mean[j]) ** 2, 0) / n;
+        std[j] = Math.sqrt(variance) || 1;
+    }
+    const scaled = rows.map((r) => r.map((v, j) => (j === 0 ? 1 : (v - mean[j]) / std[j])));
+
+    const toRaw = (W: number[][]) => W.map((w) => {
+        const raw = w.map((v, j) => (j === 0 ? v : v / std[j]));
+        raw[0] -= w.reduce((s, v, j) => (j === 0 ? s : s + (v * mean[j]) / std[j]), 0);
+        return raw;
+    });
+
+    const W = zeros();
+    const history: number[][][] = [toRaw(W)];
+    const every = Math.max(1, Math.floor(epochs / snapshots));
+    let loss = 0;
+    for (let epoch = 1; epoch <= epochs; epoch++) {
+        const grad = zeros();
+        loss = 0;
+        scaled.forEach((r, i) => {
+            const p = softmax(W.map((w) => r.reduce((s, v, j) => s + v * w[j], 0)));
+            const target = samples[i].cls;
+            loss -= Math.log(Math.max(p[target] ?? 0, 1e-12));
+            for (let k = 0; k < classCount; k++) {
+                const err = p[k] - (k === target ? 1 : 0);
+                for (let j = 0; j < d; j++) grad[k][j] += err * r[j];
+            }
+        });
+        for (let k = 0; k < classCount; k++) {
+            for (let j = 0; j < d; j++) W[k][j] -= (learningRate * grad[k][j]) / n;
+            applyPenalty(W[k], learningRate, penalty, lambda);
+        }
+        if (epoch % every === 0 || epoch === epochs) history.push(toRaw(W));
+    }
+    return { weights: toRaw(W), history, loss: loss / n };
+}
+
+// ---------------------------------------------------------------------------
+// Soft-margin SVM
+// ---------------------------------------------------------------------------
+
+export type KernelKind = "linear" | "polynomial" | "rbf" | "sigmoid";
+
+export type Kernel = { kind: KernelKind; gamma: number; degree: number; coef0: number };
+
+export const LINEAR_KERNEL: Kernel = { kind: "linear", gamma: 1, degree: 3, coef0: 1 };
+
+export function kernelValue(kernel: Kernel, a: { x: number; y: number }, b: { x: number; y: number }) {
+    const dot = a.x * b.x + a.y * b.y;
+    switch (kernel.kind) {
+        case "polynomial":
+            return (kernel.gamma * dot + kernel.coef0) ** kernel.degree;
+        case "rbf":
+            return Math.exp(-kernel.gamma * ((a.x - b.x) ** 2 + (a.y - b.y) ** 2));
+        case "sigmoid":
+            return Math.tanh(kernel.gamma * dot + kernel.coef0);
+        default:
+            return dot;
+    }
+}
+
+export type SvmOptions = { C: number; kernel?: Kernel; tol?: number; maxPasses?: number };
+
+export type SvmModel = {
+    alphas: number[];
+    b: number;
+    samples: Sample[];
+    kernel: Kernel;
+};
+
+export type SvmResult = SvmModel & {
+    // Model after each sweep over the data, for replaying training
+    history: { alphas: number[]; b: number }[];
+};
+
+const SVM_ALPHA_EPS = 1e-6;
+
+// Simplified SMO: repeatedly picks a KKT-violating multiplier and a random
+// partner and solves the two-variable subproblem analytically.
+export function trainSvm(
+    samples: Sample[],
+    { C, kernel = LINEAR_KERNEL, tol = 1e-3, maxPasses = 10 }: SvmOptions,
+    random: () => number = Math.random
+): SvmResult {
+    const n = samples.length;
+    const y = samples.map((s) => (s.cls === 0 ? 1 : -1));
+    const K = samples.map((a) => samples.map((b) => kernelValue(kernel, a, b)));
+    const alphas = new Array(n).fill(0);
+    let b = 0;
+    const history: SvmResult["history"] = [{ alphas: [...alphas], b }];
+    if (n < 2 || y.every((v) => v === y[0])) return { alphas, b, samples, kernel, history };
+
+    const f = (i: number) => alphas.reduce((s, a, j) => (a ? s + a * y[j] * K[j][i] : s), b);
+
+    let passes = 0;
+    let sweeps = 0;
+    while (passes < maxPasses && sweeps < 500) {
+        let changed = 0;
+        for (let i = 0; i < n; i++) {
+            const Ei = f(i) - y[i];
+            if (!((y[i] * Ei < -tol && alphas[i] < C) || (y[i] * Ei > tol && alphas[i] > 0))) continue;
+
+            let j = Math.floor(random() * (n - 1));
+            if (j >= i) j++;
+            const Ej = f(j) - y[j];
+            const ai = alphas[i];
+            const aj = alphas[j];
+            const L = y[i] !== y[j] ? Math.max(0, aj - ai) : Math.max(0, ai + aj - C);
+            const H = y[i] !== y[j] ? Math.min(C, C + aj - ai) : Math.min(C, ai + aj);
+            if (H - L < 1e-12) continue;
+            const eta = 2 * K[i][j] - K[i][i] - K[j][j];
+            if (eta >= 0) continue;
+
+            const ajNew = Math.min(H, Math.max(L, aj - (y[j] * (Ei - Ej)) / eta));
+            if (Math.abs(ajNew - aj) < 1e-7) continue;
+            const aiNew = ai + y[i] * y[j] * (aj - ajNew);
+            alphas[i] = aiNew;
+            alphas[j] = ajNew;
+
+            const b1 = b - Ei - y[i] * (aiNew - ai) * K[i][i] - y[j] * (ajNew - aj) * K[i][j];
+            const b2 = b - Ej - y[i] * (aiNew - ai) * K[i][j] - y[j] * (ajNew - aj) * K[j][j];
+            if (aiNew > 0 && aiNew < C) b = b1;
+            else if (ajNew > 0 && ajNew < C) b = b2;
+            else b = (b1 + b2) / 2;
+            changed++;
+        }
+        passes = changed === 0 ? passes + 1 : 0;
+        sweeps++;
+        history.push({ alphas: [...alphas], b });
+    }
+    return { alphas, b, samples, kernel, history };
+}
+
+// Primal weights of a linear SVM: w = Σ αᵢ yᵢ xᵢ
+export function linearSvmWeights({ alphas, b, samples }: SvmModel) {
+    let w1 = 0;
+    let w2 = 0;
+    samples.forEach((s, i) => {
+        const yi = s.cls === 0 ? 1 : -1;
+        w1 += alphas[i] * yi * s.x;
+        w2 += alphas[i] * yi * s.y;
+    });
+    return { w1, w2, b };
+}
+
+// Decision value f(x) = Σ αᵢ yᵢ K(xᵢ, x) + b; f = ±1 on the margin
+export function svmDecision({ alphas, b, samples, kernel }: SvmModel, x: number, y: number) {
+    let f = b;
+    samples.forEach((s, i) => {
+        if (alphas[i] > SVM_ALPHA_EPS) f += alphas[i] * (s.cls === 0 ? 1 : -1) * kernelValue(kernel, s, { x, y });
+    });
+    return f;
+}
+
+export function supportVectorIndices(model: SvmModel) {
+    return model.alphas.flatMap((a, i) => (a > SVM_ALPHA_EPS ? [i] : []));
+}
+
+export type MultiClassStrategy = "ovr" | "ovo";
+
+// One binary SVM separating `positive` from `negative` (null = all other classes)
+export type SvmMachine = { positive: number; negative: number | null; model: SvmModel };
+
+export type MultiSvmModel = { strategy: MultiClassStrategy; machines: SvmMachine[] };
+
+export type MultiSvmResult = MultiSvmModel & { histories: SvmResult["history"][] };
+
+// Combines binary SVMs: one-vs-rest trains a machine per class, one-vs-one a
+// machine per pair. With only two classes present both reduce to one machine.
+export function trainMultiSvm(
+    samples: Sample[],
+    strategy: MultiClassStrategy,
+    options: SvmOptions,
+    random: () => number = Math.random
+): MultiSvmResult {
+    const classes = [...new Set(samples.map((s) => s.cls))].sort((a, b) => a - b);
+    const pairs: [number, number | null][] = [];
+    if (classes.length === 2) {
+        pairs.push([classes[0], classes[1]]);
+    } else if (strategy === "ovr") {
+        classes.forEach((c) => pairs.push([c, null]));
+    } else {
+        classes.forEach((a, i) => classes.slice(i + 1).forEach((b) => pairs.push([a, b])));
+    }
+
+    const trained = pairs.map(([positive, negative]) => {
+        const subset = samples
+            .filter((s) => negative === null || s.cls === positive || s.cls === negative)
+            .map((s) => ({ ...s, cls: s.cls === positive ? 0 : 1 }));
+        const { history, ...model } = trainSvm(subset, options, random);
+        return { machine: { positive, negative, model }, history };
+    });
+    return {
+        strategy,
+        machines: trained.map((t) => t.machine),
+        histories: trained.map((t) => t.history),
+    };
+}
+
+export function predictMultiSvm({ strategy, machines }: MultiSvmModel, x: number, y: number) {
+    if (machines.length === 1) {
+        const m = machines[0];
+        return svmDecision(m.model, x, y) >= 0 ? m.positive : (m.negative ?? m.positive);
+    }
+    if (strategy === "ovr") {
+        let best = machines[0].positive;
+        let bestScore = -Infinity;
+        for (const m of machines) {
+            const f = svmDecision(m.model, x, y);
+            if (f > bestScore) {
+                bestScore = f;
+                best = m.positive;
+            }
+        }
+        return best;
+    }
+    // One-vs-one: majority of pairwise votes, ties broken by summed confidence
+    const votes = new Map<number, { votes: number; confidence: number }>();
+    for (const m of machines) {
+        const f = svmDecision(m.model, x, y);
+        const winner = f >= 0 ? m.positive : (m.negative as number);
+        const entry = votes.get(winner) ?? { votes: 0, confidence: 0 };
+        votes.set(winner, { votes: entry.votes + 1, confidence: entry.confidence + Math.abs(f) });
+    }
+    let best = machines[0].positive;
+    let bestEntry = { votes: -1, confidence: -1 };
+    votes.forEach((entry, cls) => {
+        if (entry.votes > bestEntry.votes || (entry.votes === bestEntry.votes && entry.confidence > bestEntry.confidence)) {
+            best = cls;
+            bestEntry = entry;
+        }
+    });
+    return best;
+}
+
+// Per-class scores in [0, 1] summing to 1. SVMs are not probabilistic, so
+// these only squash decision values: σ(f) for one machine, a softmax over the
+// one-vs-rest values, or the share of pairwise votes for one-vs-one.
+export function multiSvmProbabilities({ strategy, machines }: MultiSvmModel, x: number, y: number, classCount: number) {
+    const probs = new Array(classCount).fill(0);
+    if (machines.length === 1) {
+        const m = machines[0];
+        const p = sigmoid(svmDecision(m.model, x, y));
+        probs[m.positive] += p;
+        probs[m.negative ?? m.positive] += 1 - p;
+    } else if (strategy === "ovr") {
+        const scores = softmax(machines.map((m) => svmDecision(m.model, x, y)));
+        machines.forEach((m, i) => (probs[m.positive] = scores[i]));
+    } else {
+        for (const m of machines) {
+            probs[svmDecision(m.model, x, y) >= 0 ? m.positive : (m.negative as number)] += 1 / machines.length;
+        }
+    }
+    return probs;
+}
+
+// ---------------------------------------------------------------------------
+// k-nearest neighbours
+// ---------------------------------------------------------------------------
+
+// Majority vote among the k closest samples. A fractional k (used while
+// animating) gives the last neighbour a partial vote. Ties between classes go
+// to whichever tied class has the single nearest neighbour.
+function knnVotes(samples: Sample[], x: number, y: number, k: number, skip: number) {
+    const kFloor = Math.floor(k);
+    const neighbours = samples
+        .map((s, i) => ({ cls: s.cls, d: Math.hypot(s.x - x, s.y - y), i }))
+        .filter((s) => s.i !== skip)
+        .sort((a, b) => a.d - b.d)
+        .slice(0, Math.ceil(k));
+    const votes = new Map<number, number>();
+    neighbours.forEach((s, rank) => {
+        const weight = rank < kFloor ? 1 : k - kFloor;
+        votes.set(s.cls, (votes.get(s.cls) ?? 0) + weight);
+    });
+    return { neighbours, votes };
+}
+
+export function knnPredict(samples: Sample[], x: number, y: number, k: number, skip = -1) {
+    const { neighbours, votes } = knnVotes(samples, x, y, k, skip);
+    const top = Math.max(...votes.values());
+    return neighbours.find((s) => top - (votes.get(s.cls) ?? 0) < 1e-9)?.cls ?? 0;
+}
+
+// Share of the (weighted) neighbour votes going to each class
+export function knnProbabilities(samples: Sample[], x: number, y: number, k: number, classCount: number) {
+    const { votes } = knnVotes(samples, x, y, k, -1);
+    const total = [...votes.values()].reduce((a, b) => a + b, 0);
+    return Array.from({ length: classCount }, (_, cls) => (total ? (votes.get(cls) ?? 0) / total : 1 / classCount));
+}
+
+// KNN has no weights to fit; "training" picks the k with the best
+// leave-one-out accuracy (smallest k on ties).
+export function selectK(samples: Sample[], maxK: number) {
+    let bestK = 1;
+    let bestAccuracy = -1;
+    for (let k = 1; k <= Math.min(maxK, samples.length - 1); k++) {
+        const correct = samples.filter((s, i) => knnPredict(samples, s.x, s.y, k, i) === s.cls).length;
+        const accuracy = correct / samples.length;
+        if (accuracy > bestAccuracy) {
+            bestAccuracy = accuracy;
+            bestK = k;
+        }
+    }
+    return { k: bestK, accuracy: Math.max(0, bestAccuracy) };
+}
+
+// ---------------------------------------------------------------------------
+// Decision trees (CART) and random forests
+// ---------------------------------------------------------------------------
+
+export type SplitCriterion = "gini" | "entropy";
+
+export type TreeOptions = {
+    maxDepth: number;
+    minSamplesSplit: number;
+    criterion: SplitCriterion;
+    // Number of features considered at each split; forests use 1 of the 2
+    maxFeatures?: number;
+};
+
+// Axis-aligned box covered by a node; unbounded sides are ±Infinity
+export type Region = { xMin: number; xMax: number; yMin: number; yMax: number };
+
+// Widens one axis about the centre so a data unit spans the same number of
+// pixels horizontally and vertically
+export function equalAspect({ xMin, xMax, yMin, yMax }: Region, plotW: number, plotH: number): Region {
+    const scale = Math.max((xMax - xMin) / plotW, (yMax - yMin) / plotH);
+    const cx = (xMin + xMax) / 2;
+    const cy = (yMin + yMax) / 2;
+    return {
+        xMin: cx - (scale * plotW) / 2,
+        xMax: cx + (scale * plotW) / 2,
+        yMin: cy - (scale * plotH) / 2,
+        yMax: cy + (scale * plotH) / 2,
+    };
+}
+
+export type TreeNode = {
+    // Pre-order index, unique within one tree
+    id: number;
+    depth: number;
+    // Training samples per class that reached this node
+    counts: number[];
+    region: Region;
+    split: { feature: "x" | "y"; threshold: number; left: TreeNode; right: TreeNode } | null;
+};
+
+function impurity(counts: number[], total: number, criterion: SplitCriterion) {
+    if (!total) return 0;
+    if (criterion === "gini") return 1 - counts.reduce((s, c) => s + (c / total) ** 2, 0);
+    return -counts.reduce((s, c) => (c ? s + (c / total) * Math.log2(c / total) : s), 0);
+}
+
+function countClasses(samples: Sample[], classCount: number) {
+    const counts = new Array(classCount).fill(0);
+    samples.forEach((s) => counts[s.cls]++);
+    return counts;
+}
+
+// Best threshold on one feature: sort once, then sweep the split point while
+// moving class counts from the right side to the left.
+function bestSplit(samples: Sample[], feature: "x" | "y", classCount: number, criterion: SplitCriterion) {
+    const sorted = [...samples].sort((a, b) => a[feature] - b[feature]);
+    const n = sorted.length;
+    const left = new Array(classCount).fill(0);
+    const right = countClasses(sorted, classCount);
+    let best: { threshold: number; score: number } | null = null;
+    for (let i = 0; i < n - 1; i++) {
+        left[sorted[i].cls]++;
+        right[sorted[i].cls]--;
+        const a = sorted[i][feature];
+        const b = sorted[i + 1][feature];
+        if (a === b) continue;
+        const score = ((i + 1) * impurity(left, i + 1, criterion) + (n - i - 1) * impurity(right, n - i - 1, criterion)) / n;
+        if (!best || score < best.score) best = { threshold: (a + b) / 2, score };
+    }
+    return best;
+}
+
+// Greedy CART: split on the feature/threshold with the lowest weighted child
+// impurity until the node is pure, too deep or too small to split.
+export function trainTree(
+    samples: Sample[],
+    classCount: number,
+    { maxDepth, minSamplesSplit, criterion, maxFeatures = 2 }: TreeOptions,
+    random: () => number = Math.random
+): TreeNode {
+    let nextId = 0;
+    const grow = (subset: Sample[], depth: number, region: Region): TreeNode => {
+        const counts = countClasses(subset, classCount);
+        const node: TreeNode = { id: nextId++, depth, counts, region, split: null };
+        const parentImpurity = impurity(counts, subset.length, criterion);
+        if (depth >= maxDepth || subset.length < minSamplesSplit || parentImpurity === 0) return node;
+
+        const features: ("x" | "y")[] = maxFeatures >= 2 ? ["x", "y"] : [random() < 0.5 ? "x" : "y"];
+        let best: { feature: "x" | "y"; threshold: number; score: number } | null = null;
+        for (const feature of features) {
+            const split = bestSplit(subset, feature, classCount, criterion);
+            if (split && (!best || split.score < best.score)) best = { feature, ...split };
+        }
+        if (!best) return node;
+
+        const { feature, threshold } = best;
+        const leftRegion = { ...region, [feature === "x" ? "xMax" : "yMax"]: threshold };
+        const rightRegion = { ...region, [feature === "x" ? "xMin" : "yMin"]: threshold };
+        const left = grow(subset.filter((s) => s[feature] <= threshold), depth + 1, leftRegion);
+        const right = grow(subset.filter((s) => s[feature] > threshold), depth + 1, rightRegion);
+        node.split = { feature, threshold, left, right };
+        return node;
+    };
+    return grow(samples, 0, { xMin: -Infinity, xMax: Infinity, yMin: -Infinity, yMax: Infinity });
+}
+
+// The tree as it stood after growing `depth` levels, for replaying training
+export function truncateTree(node: TreeNode, depth: number): TreeNode {
+    if (!node.split) return node;
+    if (node.depth >= depth) return { ...node, split: null };
+    return {
+        ...node,
+        split: { ...node.split, left: truncateTree(node.split.left, depth), right: truncateTree(node.split.right, depth) },
+    };
+}
+
+export function treeDepth(node: TreeNode): number {
+    return node.split ? Math.max(treeDepth(node.split.left), treeDepth(node.split.right)) : node.depth;
+}
+
+export function treeLeaves(node: TreeNode): TreeNode[] {
+    return node.split ? [...treeLeaves(node.split.left), ...treeLeaves(node.split.right)] : [node];
+}
+
+export function treeLeaf(node: TreeNode, x: number, y: number): TreeNode {
+    let current = node;
+    while (current.split) {
+        const { feature, threshold, left, right } = current.split;
+        current = (feature === "x" ? x : y) <= threshold ? left : right;
+    }
+    return current;
+}
+
+// Class frequencies in the leaf a point falls into
+export function treeProbabilities(node: TreeNode, x: number, y: number) {
+    const { counts } = treeLeaf(node, x, y);
+    const total = counts.reduce((a, b) => a + b, 0);
+    return counts.map((c) => (total ? c / total : 1 / counts.length));
+}
+
+export type ForestOptions = TreeOptions & { trees: number };
+
+// Bagging: each tree sees a bootstrap resample and one random feature per split
+export function trainForest(
+    samples: Sample[],
+    classCount: number,
+    { trees, ...options }: ForestOptions,
+    random: () => number = Math.random
+): TreeNode[] {
+    return Array.from({ length: trees }, () => {
+        const resample = samples.map(() => samples[Math.floor(random() * samples.length)]);
+        return trainTree(resample, classCount, { maxFeatures: 1, ...options }, random);
+    });
+}
+
+// Per-class probabilities averaged over the trees
+export function forestProbabilities(forest: TreeNode[], x: number, y: number) {
+    const sums = forest[0].counts.map(() => 0);
+    for (const tree of forest) treeProbabilities(tree, x, y).forEach((p, k) => (sums[k] += p));
+    return sums.map((s) => s / forest.length);
+}
+
+// ---------------------------------------------------------------------------
+// Gaussian generative classifiers (naive Bayes, LDA, QDA)
+// ---------------------------------------------------------------------------
+
+export type GaussianKind = "naive-bayes" | "lda" | "qda";
+
+// 2×2 covariance [[sxx, sxy], [sxy, syy]]
+export type Covariance = { sxx: number; sxy: number; syy: number };
+
+export type GaussianClass = { cls: number; prior: number; mean: { x: number; y: number }; cov: Covariance };
+
+export type GaussianModel = { kind: GaussianKind; classes: GaussianClass[] };
+
+// Added to variances so a class with one point (or collinear points) still has
+// an invertible covariance
+const COVARIANCE_RIDGE = 1e-2;
+
+function scatter(samples: Sample[], mean: { x: number; y: number }): Covariance {
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (const s of samples) {
+        sxx += (s.x - mean.x) ** 2;
+        sxy += (s.x - mean.x) * (s.y - mean.y);
+        syy += (s.y - mean.y) ** 2;
+    }
+    return { sxx, sxy, syy };
+}
+
+// Fits one Gaussian per class. Naive Bayes keeps only per-class variances,
+// LDA shares one pooled covariance (so boundaries are linear) and QDA gives
+// every class its own full covariance (so boundaries are quadratic).
+export function fitGaussian(samples: Sample[], kind: GaussianKind): GaussianModel {
+    const classes = [...new Set(samples.map((s) => s.cls))].sort((a, b) => a - b);
+    const groups = classes.map((cls) => samples.filter((s) => s.cls === cls));
+    const means = groups.map((g) => ({
+        x: g.reduce((a, s) => a + s.x, 0) / g.length,
+        y: g.reduce((a, s) => a + s.y, 0) / g.length,
+    }));
+    const scatters = groups.map((g, i) => scatter(g, means[i]));
+
+    const pooled = scatters.reduce(
+        (acc, sc) => ({ sxx: acc.sxx + sc.sxx, sxy: acc.sxy + sc.sxy, syy: acc.syy + sc.syy }),
+        { sxx: 0, sxy: 0, syy: 0 }
+    );
+
+    return {
+        kind,
+        classes: classes.map((cls, i) => {
+            const n = groups[i].length;
+            const sc = kind === "lda" ? pooled : scatters[i];
+            const m = kind === "lda" ? samples.length : n;
+            const cov = {
+                sxx: sc.sxx / m + COVARIANCE_RIDGE,
+                sxy: kind === "naive-bayes" ? 0 : sc.sxy / m,
+                syy: sc.syy / m + COVARIANCE_RIDGE,
+            };
+            return { cls, prior: n / samples.length, mean: means[i], cov };
+        }),
+    };
+}
+
+// log N((x, y) | mean, cov)
+function gaussianLogDensity({ mean, cov }: GaussianClass, x: number, y: number) {
+    const det = cov.sxx * cov.syy - cov.sxy * cov.sxy;
+    const dx = x - mean.x;
+    const dy = y - mean.y;
+    const mahalanobis = (cov.syy * dx * dx - 2 * cov.sxy * dx * dy + cov.sxx * dy * dy) / det;
+    return -0.5 * (mahalanobis + Math.log(det)) - Math.log(2 * Math.PI);
+}
+
+// Posterior P(class | x) by Bayes' rule; classes without data get 0
+export function gaussianPosteriors(model: GaussianModel, x: number, y: number, classCount: number) {
+    const logJoint = model.classes.map((c) => Math.log(c.prior) + gaussianLogDensity(c, x, y));
+    const probs = softmax(logJoint);
+    const result = new Array(classCount).fill(0);
+    model.classes.forEach((c, i) => (result[c.cls] = probs[i]));
+    return result;
+}
+
+// Principal axes of a covariance: standard deviations along each axis and
+// the angle of the first one
+export function covarianceAxes({ sxx, sxy, syy }: Covariance) {
+    const mid = (sxx + syy) / 2;
+    const diff = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy);
+    return {
+        major: Math.sqrt(mid + diff),
+        minor: Math.sqrt(Math.max(0, mid - diff)),
+        angle: 0.5 * Math.atan2(2 * sxy, sxx - syy),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Model complexity sweeps
+// ---------------------------------------------------------------------------
+
+export type SweepPoint = { value: number; train: number; test: number | null };
+
+function sampleAccuracy(samples: Sample[], predict: (x: number, y: number) => number) {
+    return samples.filter((s) => predict(s.x, s.y) === s.cls).length / samples.length;
+}
+
+// Refits a model for each parameter value and scores it on the training and
+// held-out points; the gap between the two curves shows overfitting.
+export function complexitySweep(
+    values: number[],
+    fit: (value: number) => (x: number, y: number) => number,
+    train: Sample[],
+    test: Sample[]
+): SweepPoint[] {
+    return values.map((value) => {
+        const predict = fit(value);
+        return {
+            value,
+            train: sampleAccuracy(train, predict),
+            test: test.length ? sampleAccuracy(test, predict) : null,
+        };
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Synthetic 2D datasets
+// ---------------------------------------------------------------------------
+
+export type DatasetShape = "blobs" | "moons" | "circles" | "xor" | "spirals" | "linear";
+
+export type ClassificationDatasetOptions = {
+    shape: DatasetShape;
+    count: number;
+    // Standard deviation of the Gaussian jitter added to every point
+    noise: number;
+    // 0 = balanced; otherwise class k gets (1 − imbalance)ᵏ times as many points as class 0
+    imbalance: number;
+    seed: number;
+};
+
+// Shapes defined for two classes only; the others use every active class
+export const BINARY_SHAPES: DatasetShape[] = ["moons", "xor", "linear"];
+
+// All shapes are laid out around (5, 5) to fit the default 0–10 view
+const CENTER = 5;
+
+function classSizes(count: number, classes: number, imbalance: number) {
+    const weights = Array.from({ length: classes }, (_, k) => (1 - imbalance) ** k);
+    const total = weights.reduce((a, b) => a + b, 0);
+    return weights.map((w) => Math.max(1, Math.round((count * w) / total)));
+}
+
+// One noiseless point of class k (of `classes`) for the chosen shape
+function shapePoint(shape: DatasetShape, k: number, classes: number, random: () => number, lineAngle: number) {
+    switch (shape) {
+        case "blobs": {
+            const angle = (2 * Math.PI * k) / classes + Math.PI / 4;
+            return {
+                x: CENTER + 3 * Math.cos(angle) + 0.6 * gaussian(random),
+                y: CENTER + 3 * Math.sin(angle) + 0.6 * gaussian(random),
+            };
+        }
+        case "moons": {
+            const t = random() * Math.PI;
+            const [u, v] = k === 0 ? [Math.cos(t), Math.sin(t)] : [1 - Math.cos(t), 0.5 - Math.sin(t)];
+            return { x: CENTER + 3 * (u - 0.5), y: CENTER + 3 * (v - 0.25) };
+        }
+        case "circles": {
+            const t = random() * 2 * Math.PI;
+            const r = (4 * (k + 1)) / classes;
+            return { x: CENTER + r * Math.cos(t), y: CENTER + r * Math.sin(t) };
+        }
+        case "xor": {
+            // Class 0 fills the bottom-left and top-right quadrants, class 1 the other two
+            const right = random() < 0.5;
+            const top = k === 0 ? right : !right;
+            return { x: (right ? CENTER : 1) + random() * 4, y: (top ? CENTER : 1) + random() * 4 };
+        }
+        case "spirals": {
+            const t = random();
+            const angle = t * 3 * Math.PI + (2 * Math.PI * k) / classes;
+            const r = 0.5 + 3.5 * t;
+            return { x: CENTER + r * Math.cos(angle), y: CENTER + r * Math.sin(angle) };
+        }
+        case "linear": {
+            // Uniform points on the chosen side of a line through the centre, at least 0.5 away from it
+            const nx = Math.cos(lineAngle);
+            const ny = Math.sin(lineAngle);
+            for (;;) {
+                const x = 1 + random() * 8;
+                const y = 1 + random() * 8;
+                const side = (x - CENTER) * nx + (y - CENTER) * ny;
+                if ((k === 0 ? side : -side) > 0.5) return { x, y };
+            }
+        }
+    }
+}
+
+// Generates labelled points for a preset shape. The same options, class
+// count and seed always produce the same points.
+export function generateClassificationDataset(
+    opts: ClassificationDatasetOptions,
+    classCount: number,
+    random: () => number
+): Sample[] {
+    const classes = BINARY_SHAPES.includes(opts.shape) ? 2 : classCount;
+    const lineAngle = random() * Math.PI;
+    return classSizes(opts.count, classes, opts.imbalance).flatMap((n, k) =>
+        Array.from({ length: n }, () => {
+            const p = shapePoint(opts.shape, k, classes, random, lineAngle);
+            return {
+                x: parseFloat((p.x + opts.noise * gaussian(random)).toFixed(2)),
+                y: parseFloat((p.y + opts.noise * gaussian(random)).toFixed(2)),
+                cls: k,
+            };
+        })
+    );
+}
@@ -1 +1,217 @@
-export const rand = (a = 0, b = 1) => Math.random() * (b - a) + a
\ No newline at end of file
+export const rand = (a = 0, b = 1) => Math.random() * (b - a) + a
+
+export type Segment = { x1: number; y1: number; x2: number; y2: number };
+
+export const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+export const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// Marching squares over a row-major grid of `cols` x `rows` samples. Segment
+// coordinates are in grid units (column, row) so callers map them to pixels.
+export function marchingSquares(values: number[], cols: number, rows: number, level: number): Segment[] {
+    const segments: Segment[] = [];
+    const at = (c: number, r: number) => values[r * cols + c];
+    const lerp = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a));
+
+    for (let r = 0; r < rows - 1; r++) {
+        for (let c = 0; c < cols - 1; c++) {
+            const tl = at(c, r);
+            const tr = at(c + 1, r);
+            const br = at(c + 1, r + 1);
+            const bl = at(c, r + 1);
+            if (![tl, tr, br, bl].every(Number.isFinite)) continue;
+
+            const idx = (tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0);
+            if (idx === 0 || idx === 15) continue;
+
+            const top = { x: c + lerp(tl, tr), y: r };
+            const right = { x: c + 1, y: r + lerp(tr, br) };
+            const bottom = { x: c + lerp(bl, br), y: r + 1 };
+            const left = { x: c, y: r + lerp(tl, bl) };
+            const push = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+                segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+
+            switch (idx) {
+                case 1: case 14: push(left, bottom); break;
+                case 2: case 13: push(bottom, right); break;
+                case 3: case 12: push(left, right); break;
+                case 4: case 11: push(top, right); break;
+                case 6: case 9: push(top, bottom); break;
+                case 7: case 8: push(left, top); break;
+                case 5:
+                    push(left, top);
+                    push(bottom, right);
+                    break;
+                case 10:
+                    push(top, right);
+                    push(left, bottom);
+                    break;
+            }
+        }
+    }
+    return segments;
+}
+
+// Maps t ∈ [0, 1] onto a perceptual blue → green → yellow ramp (viridis-like)
+export function heatColor(t: number, alpha = 1) {
+    const stops = [
+        [68, 1, 84],
+        [59, 82, 139],
+        [33, 145, 140],
+        [94, 201, 98],
+        [253, 231, 37],
+    ];
+    const x = clamp(t, 0, 1) * (stops.length - 1);
+    const i = Math.min(stops.length - 2, Math.floor(x));
+    const f = x - i;
+    const [r, g, b] = stops[i].map((v, k) => Math.round(v + (stops[i + 1][k] - v) * f));
+    return `rgba(${r},${g},${b},${alpha})`;
+}
+
+// Gaussian elimination with partial pivoting. Returns null for a singular system.
+export function solveLinearSystem(A: number[][], rhs: number[]): number[] | null {
+    const n = rhs.length;
+    const M = A.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+        }
+        if (Math.abs(M[pivot][col]) < 1e-12) return null;
+        [M[col], M[pivot]] = [M[pivot], M[col]];
+
+        for (let r = col + 1; r < n; r++) {
+            const f = M[r][col] / M[col][col];
+            if (f === 0) continue;
+            for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+        }
+    }
+
+    const x = new Array<number>(n).fill(0);
+    for (let r = n - 1; r >= 0; r--) {
+        let sum = M[r][n];
+        for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+        x[r] = sum / M[r][r];
+    }
+    return x;
+}
+
+// Solves the normal equations (XᵀX + diag(penalty)) w = Xᵀy
+export function normalEquations(X: number[][], y: number[], penalty: number[] = []): number[] | null {
+    const p = X[0]?.length ?? 0;
+    const XtX = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+    const Xty = new Array<number>(p).fill(0);
+    X.forEach((row, i) => {
+        for (let a = 0; a < p; a++) {
+            Xty[a] += row[a] * y[i];
+            for (let b = a; b < p; b++) XtX[a][b] += row[a] * row[b];
+        }
+    });
+    for (let a = 0; a < p; a++) {
+        for (let b = 0; b < a; b++) XtX[a][b] = XtX[b][a];
+        XtX[a][a] += penalty[a] ?? 0;
+    }
+    return solveLinearSystem(XtX, Xty);
+}
+
+// Lanczos approximation of ln Γ(x)
+export function logGamma(x: number): number {
+    const g = 7;
+    const c = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+        -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+        1.5056327351493116e-7,
+    ];
+    if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+    x -= 1;
+    let a = c[0];
+    const t = x + g + 0.5;
+    for (let i = 1; i < g + 2; i++) a += c[i] / (x + i);
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(a: number, b: number, x: number) {
+    const tiny = 1e-300;
+    let c = 1;
+    let d = 1 - ((a + b) * x) / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= 300; m++) {
+        const m2 = 2 * m;
+        let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        h *= d * c;
+        aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-14) break;
+    }
+    return h;
+}
+
+// Regularized incomplete beta I_x(a, b)
+export function incompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    if (x < (a + 1) / (a + b + 2)) return (front * betaContinuedFraction(a, b, x)) / a;
+    return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+// Two-sided p-value of a t statistic with `df` degrees of freedom
+export function studentTTwoSided(t: number, df: number) {
+    return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+// Upper-tail p-value of an F statistic
+export function fDistUpper(f: number, d1: number, d2: number) {
+    if (!(f > 0)) return 1;
+    return incompleteBeta(d2 / (d2 + d1 * f), d2 / 2, d1 / 2);
+}
+
+// Critical t for a two-sided interval at `confidence`, found by bisection
+export function studentTQuantile(confidence: number, df: number) {
+    const target = 1 - confidence;
+    let lo = 0;
+    let hi = 1000;
+    for (let i = 0; i < 200; i++) {
+        const mid = (lo + hi) / 2;
+        if (studentTTwoSided(mid, df) > target) lo = mid;
+        else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export function normalQuantile(p: number): number {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const lo = 0.02425;
+
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    if (p < lo) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - lo) return -normalQuantile(1 - p);
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
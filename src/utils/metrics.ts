@@ -0,0 +1,69 @@
+// Classification metrics: confusion matrices, per-class scores and
+// threshold curves (ROC / precision-recall).
+
+export type CurvePoint = { x: number; y: number };
+
+// matrix[actual][predicted] = count
+export function confusionMatrix(actual: number[], predicted: number[], classCount: number) {
+    const matrix = Array.from({ length: classCount }, () => new Array(classCount).fill(0));
+    actual.forEach((a, i) => matrix[a][predicted[i]]++);
+    return matrix;
+}
+
+export type ClassScores = { precision: number; recall: number; f1: number; support: number };
+
+// Precision, recall and F1 of one class treated as positive; 0 when undefined
+export function classScores(matrix: number[][], cls: number): ClassScores {
+    const tp = matrix[cls][cls];
+    const support = matrix[cls].reduce((a, b) => a + b, 0);
+    const predicted = matrix.reduce((s, row) => s + row[cls], 0);
+    const precision = predicted ? tp / predicted : 0;
+    const recall = support ? tp / support : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    return { precision, recall, f1, support };
+}
+
+export function accuracy(matrix: number[][]) {
+    const total = matrix.reduce((s, row) => s + row.reduce((a, b) => a + b, 0), 0);
+    return total ? matrix.reduce((s, row, i) => s + row[i], 0) / total : 0;
+}
+
+// Unweighted mean over the classes that occur in the data
+export function macroScores(matrix: number[][]) {
+    const present = matrix.map((_, k) => classScores(matrix, k)).filter((s) => s.support > 0);
+    const mean = (key: keyof ClassScores) => (present.length ? present.reduce((s, c) => s + c[key], 0) / present.length : 0);
+    return { precision: mean("precision"), recall: mean("recall"), f1: mean("f1") };
+}
+
+// Sweeps the threshold down through every distinct score; points with
+// score ≥ threshold are predicted positive. Returns the ROC curve (FPR, TPR)
+// and precision-recall curve (recall, precision).
+export function thresholdCurves(scores: number[], positive: boolean[]) {
+    const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+    const P = positive.filter(Boolean).length;
+    const N = positive.length - P;
+    const roc: CurvePoint[] = [{ x: 0, y: 0 }];
+    const pr: CurvePoint[] = [];
+    let tp = 0;
+    let fp = 0;
+    for (let i = 0; i < order.length; i++) {
+        if (positive[order[i]]) tp++;
+        else fp++;
+        // Tied scores cross the threshold together
+        if (i + 1 < order.length && scores[order[i + 1]] === scores[order[i]]) continue;
+        roc.push({ x: N ? fp / N : 0, y: P ? tp / P : 0 });
+        pr.push({ x: P ? tp / P : 0, y: tp / (tp + fp) });
+    }
+    // Precision at zero recall is taken from the first threshold
+    if (pr.length) pr.unshift({ x: 0, y: pr[0].y });
+    return { roc, pr };
+}
+
+// Trapezoidal area under a curve whose points are sorted by x
+export function areaUnderCurve(points: CurvePoint[]) {
+    let area = 0;
+    for (let i = 1; i < points.length; i++) {
+        area += ((points[i].x - points[i - 1].x) * (points[i].y + points[i - 1].y)) / 2;
+    }
+    return area;
+}
@@ -0,0 +1,28 @@
+// Small seedable PRNG (mulberry32) so resampling and generated data can be
+// reproduced from a seed. Returns floats in [0, 1) like Math.random.
+export function createRng(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+// Standard normal draw (Box–Muller)
+export function gaussian(random: () => number) {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Student-t draw with `df` degrees of freedom: heavier tails than a normal
+export function studentT(random: () => number, df: number) {
+    let chi2 = 0;
+    for (let i = 0; i < df; i++) chi2 += gaussian(random) ** 2;
+    return gaussian(random) / Math.sqrt(chi2 / df);
+}
@@ -0,0 +1,593 @@
+import { fDistUpper, normalEquations, sigmoid, solveLinearSystem, studentTQuantile, studentTTwoSided } from "./math";
+import { gaussian, studentT } from "./random";
+
+export type Point = { x: number; y: number; temp?: boolean };
+
+export type GradientMode = "batch" | "mini-batch" | "stochastic";
+
+export function calcRegression(points: Point[]) {
+    const n = points.length;
+    if (n === 0) return { m: 0, b: 0, error: 0 };
+    const sumX = points.reduce((s, p) => s + p.x, 0);
+    const sumY = points.reduce((s, p) => s + p.y, 0);
+    const sumXY = points.reduce((s, p) => s + p.x * p.y, 0);
+    const sumX2 = points.reduce((s, p) => s + p.x * p.x, 0);
+    const denom = n * sumX2 - sumX * sumX;
+    const m = denom === 0 ? 0 : (n * sumXY - sumX * sumY) / denom;
+    const b = (sumY - m * sumX) / n;
+    const error = sumSquaredError(points, m, b);
+    return { m, b, error };
+}
+
+export function sumSquaredError(points: Point[], m: number, b: number) {
+    return points.reduce((e, p) => {
+        const pred = m * p.x + b;
+        return e + (p.y - pred) ** 2;
+    }, 0);
+}
+
+// Gradient of the mean squared error over the points selected by `indices`
+export function mseGradient(points: Point[], indices: number[], m: number, b: number) {
+    let dm = 0;
+    let db = 0;
+    for (const i of indices) {
+        const p = points[i];
+        const residual = p.y - (m * p.x + b);
+        dm += -2 * p.x * residual;
+        db += -2 * residual;
+    }
+    const n = indices.length || 1;
+    return { dm: dm / n, db: db / n };
+}
+
+// Splits one epoch into batches of point indices. Batch mode uses every point
+// in a single update; mini-batch and stochastic modes visit a shuffled order.
+export function epochBatches(n: number, mode: GradientMode, batchSize: number): number[][] {
+    const order = Array.from({ length: n }, (_, i) => i);
+    if (mode === "batch") return n ? [order] : [];
+
+    for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    const size = mode === "stochastic" ? 1 : Math.max(1, Math.floor(batchSize));
+    const batches: number[][] = [];
+    for (let i = 0; i < n; i += size) {
+        batches.push(order.slice(i, i + size));
+    }
+    return batches;
+}
+
+export type BasisKind = "polynomial" | "rbf" | "fourier";
+
+// Inputs are rescaled from the data range before expansion so high degrees
+// stay well conditioned in the normal equations.
+export type BasisSpec = { kind: BasisKind; degree: number; xMin: number; xMax: number };
+
+// `residualWeights` is set by the robust solvers: each point's final IRLS
+// weight relative to the most trusted point.
+export type BasisFit = { spec: BasisSpec; weights: number[]; error: number; residualWeights?: number[] };
+
+export function makeBasis(kind: BasisKind, degree: number, points: Point[]): BasisSpec {
+    const xs = points.map((p) => p.x);
+    let xMin = xs.length ? Math.min(...xs) : 0;
+    let xMax = xs.length ? Math.max(...xs) : 1;
+    if (xMax - xMin < 1e-9) {
+        xMin -= 0.5;
+        xMax += 0.5;
+    }
+    return { kind, degree, xMin, xMax };
+}
+
+// Feature vector for x, always led by the intercept term
+export function basisRow(spec: BasisSpec, x: number): number[] {
+    const { kind, degree, xMin, xMax } = spec;
+    const t = (x - xMin) / (xMax - xMin);
+    const row = [1];
+
+    if (kind === "polynomial") {
+        const u = 2 * t - 1;
+        for (let d = 1; d <= degree; d++) row.push(u ** d);
+    } else if (kind === "rbf") {
+        const width = 1 / Math.max(1, degree);
+        for (let k = 0; k < degree; k++) {
+            const center = degree === 1 ? 0.5 : k / (degree - 1);
+            row.push(Math.exp(-((t - center) ** 2) / (2 * width * width)));
+        }
+    } else {
+        // Half-period spans the data so the fit is not forced to wrap around
+        for (let k = 1; k <= degree; k++) {
+            row.push(Math.sin(k * Math.PI * t), Math.cos(k * Math.PI * t));
+        }
+    }
+    return row;
+}
+
+export function basisNames(spec: BasisSpec): string[] {
+    const names = ["bias"];
+    for (let k = 1; k <= spec.degree; k++) {
+        if (spec.kind === "polynomial") names.push(k === 1 ? "u" : `u^${k}`);
+        else if (spec.kind === "rbf") names.push(`φ${k}`);
+        else names.push(`sin ${k}πt`, `cos ${k}πt`);
+    }
+    return names;
+}
+
+export function predictBasis(fit: BasisFit, x: number) {
+    const row = basisRow(fit.spec, x);
+    return row.reduce((s, v, i) => s + v * (fit.weights[i] ?? 0), 0);
+}
+
+export function basisError(fit: BasisFit, points: Point[]) {
+    return points.reduce((e, p) => e + (p.y - predictBasis(fit, p.x)) ** 2, 0);
+}
+
+export type Penalty = "none" | "ridge" | "lasso" | "elastic-net";
+
+// Penalised objective, with the intercept left unpenalised:
+//   (1/2n)·RSS + λ·(α·‖w‖₁ + (1 − α)/2·‖w‖²)
+// Ridge is α = 0, Lasso is α = 1 and Elastic-Net anything in between.
+export type Regularization = { penalty: Penalty; lambda: number; l1Ratio: number };
+
+export const NO_REGULARIZATION: Regularization = { penalty: "none", lambda: 0, l1Ratio: 0.5 };
+
+function l1Ratio(reg: Regularization) {
+    if (reg.penalty === "lasso") return 1;
+    if (reg.penalty === "elastic-net") return reg.l1Ratio;
+    return 0;
+}
+
+const softThreshold = (z: number, t: number) => Math.sign(z) * Math.max(0, Math.abs(z) - t);
+
+// Cyclic coordinate descent for the L1 and mixed penalties
+function coordinateDescent(X: number[][], y: number[], lambda: number, alpha: number, start?: number[]) {
+    const n = X.length;
+    const p = X[0].length;
+    const w = start ? [...start] : new Array<number>(p).fill(0);
+    const residual = y.map((yi, i) => yi - X[i].reduce((s, v, j) => s + v * w[j], 0));
+    const colNorm = Array.from({ length: p }, (_, j) => X.reduce((s, row) => s + row[j] * row[j], 0) / n);
+
+    for (let sweep = 0; sweep < 2000; sweep++) {
+        let maxChange = 0;
+        for (let j = 0; j < p; j++) {
+            if (colNorm[j] === 0) continue;
+            let rho = 0;
+            for (let i = 0; i < n; i++) rho += X[i][j] * (residual[i] + w[j] * X[i][j]);
+            rho /= n;
+
+            const next = j === 0
+                ? rho / colNorm[j]
+                : softThreshold(rho, lambda * alpha) / (colNorm[j] + lambda * (1 - alpha));
+            const delta = next - w[j];
+            if (delta !== 0) {
+                for (let i = 0; i < n; i++) residual[i] -= delta * X[i][j];
+                w[j] = next;
+                maxChange = Math.max(maxChange, Math.abs(delta));
+            }
+        }
+        if (maxChange < 1e-9) break;
+    }
+    return w;
+}
+
+function solveWeights(X: number[][], y: number[], reg: Regularization, start?: number[]) {
+    const p = X[0]?.length ?? 1;
+    if (!X.length) return new Array<number>(p).fill(0);
+
+    const alpha = l1Ratio(reg);
+    if (reg.penalty !== "none" && alpha > 0) return coordinateDescent(X, y, reg.lambda, alpha, start);
+
+    // A vanishing ridge keeps the system solvable when there are more basis
+    // functions than points; it does not visibly change well-posed fits.
+    const ridge = reg.penalty === "ridge" ? X.length * reg.lambda : 1e-9;
+    const penalty = X[0].map((_, i) => (i === 0 ? 0 : ridge));
+    return normalEquations(X, y, penalty) ?? new Array<number>(p).fill(0);
+}
+
+export function fitBasis(
+    points: Point[],
+    kind: BasisKind,
+    degree: number,
+    reg: Regularization = NO_REGULARIZATION
+): BasisFit {
+    const spec = makeBasis(kind, degree, points);
+    const X = points.map((p) => basisRow(spec, p.x));
+    const y = points.map((p) => p.y);
+    const weights = solveWeights(X, y, reg);
+    const fit = { spec, weights, error: 0 };
+    fit.error = basisError(fit, points);
+    return fit;
+}
+
+// Coefficients (bias excluded) across a log-spaced λ grid, warm-started from
+// the previous λ so the L1 solver converges quickly.
+export function regularizationPath(
+    points: Point[],
+    kind: BasisKind,
+    degree: number,
+    reg: Regularization,
+    logLambdas: number[]
+) {
+    const spec = makeBasis(kind, degree, points);
+    const X = points.map((p) => basisRow(spec, p.x));
+    const y = points.map((p) => p.y);
+    let start: number[] | undefined;
+    return logLambdas.map((logLambda) => {
+        const weights = solveWeights(X, y, { ...reg, lambda: 10 ** logLambda }, start);
+        start = weights;
+        return { logLambda, coefficients: weights.slice(1) };
+    });
+}
+
+export type RobustLoss = "mse" | "mae" | "huber" | "quantile";
+
+export type LossOptions = { loss: RobustLoss; delta: number; tau: number };
+
+export function lossValue(residual: number, opts: LossOptions) {
+    const a = Math.abs(residual);
+    switch (opts.loss) {
+        case "mae":
+            return a;
+        case "huber":
+            return a <= opts.delta ? 0.5 * residual * residual : opts.delta * (a - 0.5 * opts.delta);
+        case "quantile":
+            return residual >= 0 ? opts.tau * residual : (opts.tau - 1) * residual;
+        default:
+            return residual * residual;
+    }
+}
+
+// IRLS weight that makes a weighted least-squares step minimise the loss locally
+function irlsWeight(residual: number, opts: LossOptions) {
+    const a = Math.max(Math.abs(residual), 1e-6);
+    switch (opts.loss) {
+        case "mae":
+            return 1 / a;
+        case "huber":
+            return a <= opts.delta ? 1 : opts.delta / a;
+        case "quantile":
+            return (residual >= 0 ? opts.tau : 1 - opts.tau) / a;
+        default:
+            return 1;
+    }
+}
+
+// Iteratively reweighted least squares, started from the ordinary fit
+export function fitRobust(points: Point[], kind: BasisKind, degree: number, opts: LossOptions): BasisFit {
+    const ols = fitBasis(points, kind, degree);
+    if (opts.loss === "mse" || points.length === 0) {
+        return { ...ols, residualWeights: points.map(() => 1) };
+    }
+
+    const X = points.map((p) => basisRow(ols.spec, p.x));
+    const y = points.map((p) => p.y);
+    const penalty = X[0].map((_, i) => (i === 0 ? 0 : 1e-9));
+    let weights = ols.weights;
+    let w = points.map(() => 1);
+
+    for (let iter = 0; iter < 200; iter++) {
+        const residuals = X.map((row, i) => y[i] - row.reduce((s, v, j) => s + v * weights[j], 0));
+        w = residuals.map((r) => irlsWeight(r, opts));
+        const Xw = X.map((row, i) => row.map((v) => v * Math.sqrt(w[i])));
+        const yw = y.map((v, i) => v * Math.sqrt(w[i]));
+        const next = normalEquations(Xw, yw, penalty);
+        if (!next) break;
+        const change = Math.max(...next.map((v, j) => Math.abs(v - weights[j])));
+        weights = next;
+        if (change < 1e-8) break;
+    }
+
+    const maxW = Math.max(...w) || 1;
+    const fit: BasisFit = { spec: ols.spec, weights, error: 0, residualWeights: w.map((v) => v / maxW) };
+    fit.error = basisError(fit, points);
+    return fit;
+}
+
+export type LinearInference = {
+    n: number;
+    df: number;
+    m: number;
+    b: number;
+    seM: number;
+    seB: number;
+    tM: number;
+    tB: number;
+    pM: number;
+    pB: number;
+    ciM: [number, number];
+    ciB: [number, number];
+    r2: number;
+    adjR2: number;
+    f: number;
+    pF: number;
+    rse: number;
+    tCrit: number;
+    xMean: number;
+    sxx: number;
+};
+
+// Classical OLS inference for y = m·x + b. Needs three points and spread in x.
+export function linearInference(points: Point[], confidence = 0.95): LinearInference | null {
+    const n = points.length;
+    if (n < 3) return null;
+    const xMean = points.reduce((s, p) => s + p.x, 0) / n;
+    const yMean = points.reduce((s, p) => s + p.y, 0) / n;
+    const sxx = points.reduce((s, p) => s + (p.x - xMean) ** 2, 0);
+    if (sxx < 1e-12) return null;
+
+    const { m, b, error: sse } = calcRegression(points);
+    const sst = points.reduce((s, p) => s + (p.y - yMean) ** 2, 0);
+    const df = n - 2;
+    const rse = Math.sqrt(sse / df);
+    const seM = rse / Math.sqrt(sxx);
+    const seB = rse * Math.sqrt(1 / n + (xMean * xMean) / sxx);
+    const tM = seM > 0 ? m / seM : Infinity;
+    const tB = seB > 0 ? b / seB : Infinity;
+    const tCrit = studentTQuantile(confidence, df);
+    const r2 = sst > 0 ? 1 - sse / sst : 1;
+    const f = sse > 0 ? (sst - sse) / (sse / df) : Infinity;
+
+    return {
+        n,
+        df,
+        m,
+        b,
+        seM,
+        seB,
+        tM,
+        tB,
+        pM: Number.isFinite(tM) ? studentTTwoSided(tM, df) : 0,
+        pB: Number.isFinite(tB) ? studentTTwoSided(tB, df) : 0,
+        ciM: [m - tCrit * seM, m + tCrit * seM],
+        ciB: [b - tCrit * seB, b + tCrit * seB],
+        r2,
+        adjR2: 1 - ((1 - r2) * (n - 1)) / df,
+        f,
+        pF: Number.isFinite(f) ? fDistUpper(f, 1, df) : 0,
+        rse,
+        tCrit,
+        xMean,
+        sxx,
+    };
+}
+
+// Half-width of the confidence band for the mean response, or of the
+// prediction band for a new observation, at x
+export function bandHalfWidth(inf: LinearInference, x: number, prediction: boolean) {
+    const leverage = 1 / inf.n + (x - inf.xMean) ** 2 / inf.sxx;
+    return inf.tCrit * inf.rse * Math.sqrt((prediction ? 1 : 0) + leverage);
+}
+
+export type Diagnostics = {
+    fitted: number[];
+    residuals: number[];
+    standardized: number[];
+    leverage: number[];
+    cooks: number[];
+    // Cook's distance above 4/n or leverage above 2p/n
+    influential: boolean[];
+    cooksThreshold: number;
+    leverageThreshold: number;
+};
+
+// Per-point residual diagnostics. `rows` is each point's design-matrix row, so
+// leverage follows whichever basis the model was fitted with.
+export function residualDiagnostics(points: Point[], rows: number[][], predict: (x: number) => number): Diagnostics | null {
+    const n = points.length;
+    const p = rows[0]?.length ?? 0;
+    if (n <= p) return null;
+
+    const XtX = Array.from({ length: p }, (_, a) =>
+        Array.from({ length: p }, (_, b) => rows.reduce((s, row) => s + row[a] * row[b], 0) + (a === b ? 1e-9 : 0))
+    );
+    const leverage = rows.map((row) => {
+        const z = solveLinearSystem(XtX, row);
+        return z ? Math.min(1, row.reduce((s, v, i) => s + v * z[i], 0)) : 0;
+    });
+
+    const fitted = points.map((pt) => predict(pt.x));
+    const residuals = points.map((pt, i) => pt.y - fitted[i]);
+    const s2 = residuals.reduce((s, r) => s + r * r, 0) / (n - p);
+    const s = Math.sqrt(s2);
+    const standardized = residuals.map((r, i) => (s > 0 ? r / (s * Math.sqrt(Math.max(1e-12, 1 - leverage[i]))) : 0));
+    const cooks = residuals.map((r, i) => {
+        const h = leverage[i];
+        return s2 > 0 ? ((r * r) / (p * s2)) * (h / Math.max(1e-12, (1 - h) ** 2)) : 0;
+    });
+
+    const cooksThreshold = 4 / n;
+    const leverageThreshold = (2 * p) / n;
+    return {
+        fitted,
+        residuals,
+        standardized,
+        leverage,
+        cooks,
+        influential: cooks.map((d, i) => d > cooksThreshold || leverage[i] > leverageThreshold),
+        cooksThreshold,
+        leverageThreshold,
+    };
+}
+
+export type MultiPoint = { features: number[]; y: number };
+
+// Least-squares hyperplane y = w₀ + w₁x₁ + … + w_kx_k
+export function fitMultiple(rows: MultiPoint[]) {
+    const k = rows[0]?.features.length ?? 0;
+    const X = rows.map((r) => [1, ...r.features]);
+    const y = rows.map((r) => r.y);
+    const penalty = new Array(k + 1).fill(0).map((_, i) => (i === 0 ? 0 : 1e-9));
+    const coefficients = (rows.length ? normalEquations(X, y, penalty) : null) ?? new Array<number>(k + 1).fill(0);
+
+    const predict = (features: number[]) => features.reduce((s, v, i) => s + v * coefficients[i + 1], coefficients[0]);
+    const yMean = y.reduce((s, v) => s + v, 0) / (y.length || 1);
+    const sse = rows.reduce((s, r) => s + (r.y - predict(r.features)) ** 2, 0);
+    const sst = y.reduce((s, v) => s + (v - yMean) ** 2, 0);
+    const n = rows.length;
+    const r2 = sst > 0 ? 1 - sse / sst : 1;
+    const adjR2 = n > k + 1 ? 1 - ((1 - r2) * (n - 1)) / (n - k - 1) : NaN;
+    return { coefficients, predict, sse, r2, adjR2 };
+}
+
+// Refits the least-squares line on B resamples drawn with replacement
+export function bootstrapFits(points: Point[], B: number, random: () => number = Math.random) {
+    const n = points.length;
+    if (n < 2) return [];
+    return Array.from({ length: B }, () => {
+        const sample = Array.from({ length: n }, () => points[Math.floor(random() * n)]);
+        const { m, b } = calcRegression(sample);
+        return { m, b };
+    });
+}
+
+export function percentile(values: number[], q: number) {
+    if (values.length === 0) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export type FoldResult = { trainSize: number; testSize: number; mse: number; predict: (x: number) => number };
+
+// k-fold cross-validation. `fold[i]` is the fold point i is held out in and
+// `fit` trains a model on the remaining points.
+export function crossValidate(
+    points: Point[],
+    k: number,
+    fit: (train: Point[]) => (x: number) => number,
+    random: () => number = Math.random
+) {
+    const n = points.length;
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    const fold = new Array<number>(n).fill(0);
+    order.forEach((idx, pos) => {
+        fold[idx] = pos % k;
+    });
+
+    const results: FoldResult[] = Array.from({ length: k }, (_, f) => {
+        const train = points.filter((_, i) => fold[i] !== f);
+        const test = points.filter((_, i) => fold[i] === f);
+        const predict = fit(train);
+        const mse = test.length ? test.reduce((s, p) => s + (p.y - predict(p.x)) ** 2, 0) / test.length : NaN;
+        return { trainSize: train.length, testSize: test.length, mse, predict };
+    });
+    const valid = results.filter((r) => Number.isFinite(r.mse));
+    const meanMse = valid.reduce((s, r) => s + r.mse, 0) / (valid.length || 1);
+    return { fold, results, meanMse };
+}
+
+// 1D logistic regression on points whose y is 0 or 1: P(y = 1 | x) = σ(w0 + w1·x)
+export type LogisticParams = { w0: number; w1: number };
+
+export type LogisticSolver = "gradient-descent" | "newton";
+
+// Mean binary cross-entropy, with probabilities clamped away from 0 and 1
+export function logLoss(points: Point[], { w0, w1 }: LogisticParams) {
+    if (!points.length) return 0;
+    const eps = 1e-12;
+    const total = points.reduce((s, p) => {
+        const prob = Math.min(1 - eps, Math.max(eps, sigmoid(w0 + w1 * p.x)));
+        return s - (p.y * Math.log(prob) + (1 - p.y) * Math.log(1 - prob));
+    }, 0);
+    return total / points.length;
+}
+
+// One gradient-descent update, or one Newton step (a single IRLS iteration).
+// Newton adds a tiny ridge so the Hessian stays invertible on separable data.
+export function logisticStep(
+    points: Point[],
+    params: LogisticParams,
+    solver: LogisticSolver,
+    learningRate: number
+): LogisticParams {
+    const n = points.length;
+    if (!n) return params;
+    let g0 = 0;
+    let g1 = 0;
+    let h00 = 1e-6;
+    let h01 = 0;
+    let h11 = 1e-6;
+    for (const p of points) {
+        const prob = sigmoid(params.w0 + params.w1 * p.x);
+        const r = prob - p.y;
+        const w = prob * (1 - prob);
+        g0 += r;
+        g1 += r * p.x;
+        h00 += w;
+        h01 += w * p.x;
+        h11 += w * p.x * p.x;
+    }
+    if (solver === "gradient-descent") {
+        return { w0: params.w0 - (learningRate * g0) / n, w1: params.w1 - (learningRate * g1) / n };
+    }
+    const step = solveLinearSystem([[h00, h01], [h01, h11]], [g0, g1]);
+    if (!step) return params;
+    return { w0: params.w0 - step[0], w1: params.w1 - step[1] };
+}
+
+export type TruthShape = "linear" | "quadratic" | "sine" | "exponential";
+
+export type NoiseKind = "gaussian" | "uniform" | "heavy-tailed";
+
+export type DatasetOptions = {
+    count: number;
+    slope: number;
+    intercept: number;
+    shape: TruthShape;
+    // Strength of the non-linear term; ignored for a linear truth
+    curvature: number;
+    noise: NoiseKind;
+    noiseScale: number;
+    // 0 keeps the noise constant, 1 triples its spread from the left to the right end
+    heteroscedasticity: number;
+    seed: number;
+};
+
+export const DATASET_X_MIN = 0;
+export const DATASET_X_MAX = 10;
+
+// The noiseless generating function for a dataset
+export function trueCurve(opts: DatasetOptions) {
+    const { slope, intercept, shape, curvature } = opts;
+    return (x: number) => {
+        const line = intercept + slope * x;
+        switch (shape) {
+            case "quadratic":
+                return line + (curvature * (x - 5) ** 2) / 5;
+            case "sine":
+                return line + curvature * Math.sin(x);
+            case "exponential":
+                return line + (curvature * (Math.exp(x / 3) - 1)) / 5;
+            default:
+                return line;
+        }
+    };
+}
+
+// Noise with unit variance, so σ is the standard deviation for every kind:
+// Student-t with 3 df has variance 3 and is scaled down to match
+function noiseDraw(kind: NoiseKind, random: () => number) {
+    if (kind === "uniform") return (random() * 2 - 1) * Math.sqrt(3);
+    if (kind === "heavy-tailed") return studentT(random, 3) / Math.sqrt(3);
+    return gaussian(random);
+}
+
+// Draws x uniformly on [DATASET_X_MIN, DATASET_X_MAX] and adds noise to the true
+// curve. The same options and seed always produce the same points.
+export function generateDataset(opts: DatasetOptions, random: () => number): Point[] {
+    const f = trueCurve(opts);
+    const span = DATASET_X_MAX - DATASET_X_MIN;
+    const xs = Array.from({ length: opts.count }, () => DATASET_X_MIN + random() * span).sort((a, b) => a - b);
+    return xs.map((x) => {
+        const spread = opts.noiseScale * (1 + 2 * opts.heteroscedasticity * ((x - DATASET_X_MIN) / span));
+        const y = f(x) + spread * noiseDraw(opts.noise, random);
+        return { x: parseFloat(x.toFixed(2)), y: parseFloat(y.toFixed(2)) };
+    });
+}